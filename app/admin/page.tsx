@@ -5,6 +5,14 @@ import { collection, getDocs, addDoc, deleteDoc, doc, updateDoc } from 'firebase
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage'
 import { db, storage } from '@/app/lib/firebase'
 import { Loader } from '@/app/components/Loader'
+import Scene from '@/app/components/Scene'
+import MeshMappingFields, { MeshMappingRow } from '@/app/components/MeshMappingFields'
+import PanelGeometryFields from '@/app/components/PanelGeometryFields'
+import ProductionExport from '@/app/components/ProductionExport'
+import { ProductPanel, normalizeProductPanels } from '@/app/lib/panels'
+import { DEFAULT_MIN_PRINT_DPI, normalizeMinPrintDpi } from '@/app/lib/printQuality'
+import { MeshMapping, getProductModel, normalizeMeshMapping } from '@/app/lib/productModel'
+import { PanelType } from '@/app/lib/design'
 import Image from 'next/image'
 
 interface Product {
@@ -15,6 +23,8 @@ interface Product {
   category: string
   image: string
   model3D: string
+  // MD5 of the uploaded model, so viewers don't keep a stale cached copy
+  modelVersion?: string
   features: string[]
   specifications: {
     dimensions: string
@@ -22,9 +32,13 @@ interface Product {
     formFactor: string
     maxGPULength: string
     maxCPUCoolerHeight: string
+    maxRadiatorSize?: string
     includedFans: string
   }
   slug: string
+  panels?: ProductPanel[]
+  minPrintDpi?: number
+  meshMapping?: MeshMapping
 }
 
 const CATEGORIES = ['ATX', 'mATX', 'ITX', 'Full Tower']
@@ -43,11 +57,18 @@ export default function AdminDashboard() {
     formFactor: '',
     maxGPULength: '',
     maxCPUCoolerHeight: '',
+    maxRadiatorSize: '',
     includedFans: '',
-    slug: ''
+    slug: '',
+    minPrintDpi: ''
   })
+  const [panels, setPanels] = useState<ProductPanel[]>(() => normalizeProductPanels(undefined))
+  const [meshMappingRows, setMeshMappingRows] = useState<MeshMappingRow[]>([])
   const [image, setImage] = useState<File | null>(null)
   const [model3D, setModel3D] = useState<File | null>(null)
+  const [model3DUrl, setModel3DUrl] = useState('')
+  const [showMapper, setShowMapper] = useState(false)
+  const [savingMapping, setSavingMapping] = useState(false)
   const [previewImage, setPreviewImage] = useState<string>('')
   const [submitStatus, setSubmitStatus] = useState<{
     type: 'success' | 'error' | null;
@@ -79,6 +100,17 @@ export default function AdminDashboard() {
     fetchProducts()
   }, [fetchProducts])
 
+  // Preview a newly chosen model file in the panel mapper before it's uploaded
+  useEffect(() => {
+    if (!model3D) {
+      setModel3DUrl('')
+      return
+    }
+    const url = URL.createObjectURL(model3D)
+    setModel3DUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [model3D])
+
   const resetForm = () => {
     setFormData({
       name: '',
@@ -91,12 +123,17 @@ export default function AdminDashboard() {
       formFactor: '',
       maxGPULength: '',
       maxCPUCoolerHeight: '',
+      maxRadiatorSize: '',
       includedFans: '',
-      slug: ''
+      slug: '',
+      minPrintDpi: ''
     })
+    setPanels(normalizeProductPanels(undefined))
+    setMeshMappingRows([])
     setImage(null)
     setModel3D(null)
     setPreviewImage('')
+    setShowMapper(false)
   }
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -124,13 +161,53 @@ export default function AdminDashboard() {
       formFactor: product.specifications.formFactor,
       maxGPULength: product.specifications.maxGPULength,
       maxCPUCoolerHeight: product.specifications.maxCPUCoolerHeight,
+      maxRadiatorSize: product.specifications.maxRadiatorSize || '',
       includedFans: product.specifications.includedFans,
-      slug: product.slug || ''
+      slug: product.slug || '',
+      minPrintDpi: product.minPrintDpi?.toString() || ''
     })
+    setPanels(normalizeProductPanels(product.panels))
+    setMeshMappingRows(Object.entries(normalizeMeshMapping(product.meshMapping)))
     setPreviewImage(product.image)
+    setShowMapper(false)
     window.scrollTo({ top: 0, behavior: 'smooth' })
   }
 
+  const getMeshMapping = () =>
+    normalizeMeshMapping(Object.fromEntries(meshMappingRows.map(([meshName, panelType]) => [meshName.trim(), panelType])))
+
+  const handleAssignMesh = (meshName: string, panelType: PanelType | null) => {
+    setMeshMappingRows(rows => {
+      const others = rows.filter(([name]) => name.trim() !== meshName)
+      return panelType ? [...others, [meshName, panelType]] : others
+    })
+  }
+
+  // Saves just the mapping, so an existing product can be mapped without resubmitting the form
+  const handleSaveMapping = async () => {
+    if (!editingProductId) return
+    setSavingMapping(true)
+    try {
+      const meshMapping = getMeshMapping()
+      await updateDoc(doc(db, 'products', editingProductId), { meshMapping })
+      setProducts(products.map(p => p.id === editingProductId ? { ...p, meshMapping } : p))
+      setSubmitStatus({ type: 'success', message: '3D panel mapping saved!' })
+    } catch (error) {
+      console.error('Error saving mesh mapping:', error)
+      setSubmitStatus({
+        type: 'error',
+        message: `Error saving 3D panel mapping: ${error instanceof Error ? error.message : 'Unknown error'}`
+      })
+    } finally {
+      setSavingMapping(false)
+    }
+  }
+
+  const editingProduct = products.find(p => p.id === editingProductId)
+  const mapperModelPath = model3DUrl || getProductModel(editingProduct || {}).modelPath
+  // A file that isn't uploaded yet is read from a blob: URL, which is never cached
+  const mapperModelVersion = model3DUrl ? undefined : getProductModel(editingProduct || {}).modelVersion
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
@@ -139,6 +216,7 @@ export default function AdminDashboard() {
     try {
       let imageUrl = ''
       let modelUrl = ''
+      let modelVersion = ''
 
       if (image) {
         const imageRef = ref(storage, `products/${Date.now()}-${image.name}`)
@@ -151,9 +229,10 @@ export default function AdminDashboard() {
         const modelRef = ref(storage, `models/${modelFileName}`)
         
         console.log('Uploading 3D model:', modelFileName)
-        await uploadBytes(modelRef, model3D)
+        const upload = await uploadBytes(modelRef, model3D)
         
         modelUrl = await getDownloadURL(modelRef)
+        modelVersion = upload.metadata.md5Hash || String(Date.now())
         console.log('Model uploaded successfully:', modelUrl)
       }
 
@@ -164,6 +243,7 @@ export default function AdminDashboard() {
         category: formData.category,
         image: imageUrl || previewImage,
         model3D: modelUrl || (editingProductId ? products.find(p => p.id === editingProductId)?.model3D || '' : ''),
+        modelVersion: modelVersion || (editingProductId ? products.find(p => p.id === editingProductId)?.modelVersion || '' : ''),
         slug: formData.slug || formData.name.toLowerCase().replace(/\s+/g, '-'),
         features: formData.features.split('\n').filter(f => f.trim()),
         specifications: {
@@ -172,8 +252,13 @@ export default function AdminDashboard() {
           formFactor: formData.formFactor,
           maxGPULength: formData.maxGPULength,
           maxCPUCoolerHeight: formData.maxCPUCoolerHeight,
+          // Optional, and left out when blank so the product page doesn't list an empty spec
+          ...(formData.maxRadiatorSize.trim() ? { maxRadiatorSize: formData.maxRadiatorSize.trim() } : {}),
           includedFans: formData.includedFans,
-        }
+        },
+        panels,
+        minPrintDpi: normalizeMinPrintDpi(parseFloat(formData.minPrintDpi)),
+        meshMapping: getMeshMapping()
       }
 
       if (editingProductId) {
@@ -379,6 +464,17 @@ export default function AdminDashboard() {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Max Radiator Size</label>
+                <input
+                  type="text"
+                  className={inputClasses}
+                  value={formData.maxRadiatorSize}
+                  onChange={(e) => setFormData({...formData, maxRadiatorSize: e.target.value})}
+                  placeholder="e.g., 360mm"
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Included Fans</label>
                 <input
@@ -393,6 +489,27 @@ export default function AdminDashboard() {
             </div>
           </div>
 
+          {/* Panel Geometry */}
+          <div>
+            <h3 className="text-lg font-semibold mb-2 text-gray-800">Etchable Panels</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              The panels customers can etch, with their real sizes and the areas the laser must avoid. The designer offers these panels and clips artwork to them.
+            </p>
+            <PanelGeometryFields panels={panels} inputClassName={inputClasses} onChange={setPanels} />
+            <div className="mt-6 md:w-1/2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Print Resolution (DPI)</label>
+              <input
+                type="number"
+                min="1"
+                className={inputClasses}
+                value={formData.minPrintDpi}
+                onChange={(e) => setFormData({...formData, minPrintDpi: e.target.value})}
+                placeholder={`Defaults to ${DEFAULT_MIN_PRINT_DPI}`}
+              />
+              <p className="text-xs text-gray-500 mt-1">Uploaded images below this, at the size placed on the panel, can&apos;t be ordered.</p>
+            </div>
+          </div>
+
           {/* File Uploads */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
@@ -432,6 +549,47 @@ export default function AdminDashboard() {
             </div>
           </div>
 
+          {/* Model Panel Mapping */}
+          <div>
+            <h3 className="text-lg font-semibold mb-2 text-gray-800">3D Panel Mapping</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Which meshes of the 3D model show each panel, so the preview puts designs in the right place. A panel can span several meshes.
+            </p>
+            <MeshMappingFields rows={meshMappingRows} panels={panels} inputClassName={inputClasses} onChange={setMeshMappingRows} />
+
+            <div className="flex space-x-3 mt-4">
+              <button
+                type="button"
+                onClick={() => setShowMapper(!showMapper)}
+                className="px-3 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 text-sm"
+              >
+                {showMapper ? 'Hide 3D Mapper' : 'Map Panels in 3D'}
+              </button>
+              {editingProductId && (
+                <button
+                  type="button"
+                  onClick={handleSaveMapping}
+                  disabled={savingMapping}
+                  className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+                >
+                  {savingMapping ? 'Saving...' : 'Save Mapping'}
+                </button>
+              )}
+            </div>
+
+            {showMapper && (
+              <div className="mt-4 h-[500px] bg-gray-800 rounded-xl overflow-hidden relative">
+                <Scene
+                  modelPath={mapperModelPath}
+                  modelVersion={mapperModelVersion}
+                  productPanels={panels}
+                  meshMapping={getMeshMapping()}
+                  mapper={{ onAssign: handleAssignMesh }}
+                />
+              </div>
+            )}
+          </div>
+
           <button
             type="submit"
             disabled={loading}
@@ -452,6 +610,15 @@ export default function AdminDashboard() {
         </form>
       </div>
 
+      {/* Production Files */}
+      <div className="bg-white shadow-lg rounded-xl p-8">
+        <h2 className="text-2xl font-bold mb-2 text-gray-800">Production Files</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          Download true-scale SVG or DXF job files for a saved design, with registration marks and order details.
+        </p>
+        <ProductionExport inputClassName={inputClasses} />
+      </div>
+
       {/* Products List */}
       <div className="bg-white shadow-lg rounded-xl p-8">
         <h2 className="text-2xl font-bold mb-6 text-gray-800">Products List</h2>
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DesignData, ImageLayer, PanelDesign, normalizeDesign } from '@/app/lib/design'
+import { ProductionFormat, ProductionJob, buildPanelDxf, buildPanelSvg, productionFileName } from '@/app/lib/exportProduction'
+import { getAdminDb, isAdminConfigured, verifyAdminRequest } from '@/app/lib/firebaseAdmin'
+import { normalizeProductPanels } from '@/app/lib/panels'
+
+const FORMATS: Record<ProductionFormat, string> = {
+  svg: 'image/svg+xml',
+  dxf: 'application/dxf'
+}
+
+// Processed artwork is PNG, a few megabytes per layer at most
+const PNG_DATA_URL = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/
+const MAX_IMAGES_LENGTH = 50 * 1024 * 1024
+
+/**
+ * The processed bitmap for each visible image layer, as sent by the admin's
+ * browser, which runs the same pipeline as the designer. Nothing is fetched
+ * here, and the original uploads are never used.
+ */
+function readImages(body: unknown, panel: PanelDesign): Record<string, string> {
+  const sent = (body && typeof body === 'object' ? (body as { images?: unknown }).images : null) || {}
+  if (typeof sent !== 'object') throw new Error('images must be an object')
+
+  const layers = panel.layers.filter((layer): layer is ImageLayer => layer.type === 'image' && layer.visible)
+  let length = 0
+  return Object.fromEntries(layers.map(layer => {
+    const image = (sent as Record<string, unknown>)[layer.id]
+    if (typeof image !== 'string' || !PNG_DATA_URL.test(image)) {
+      throw new Error(`Missing processed artwork for layer "${layer.name}"`)
+    }
+    length += image.length
+    if (length > MAX_IMAGES_LENGTH) throw new Error('Processed artwork is too large')
+    return [layer.id, image]
+  }))
+}
+
+/**
+ * Production file for one panel of a saved design, for admins only.
+ * Query: `panel` (panel type), `format` (svg | dxf), optional `orderId`
+ * (defaults to the design ID). SVG requests send a JSON body of
+ * `{ images: { [layerId]: pngDataUrl } }` with every visible image layer.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const panelType = request.nextUrl.searchParams.get('panel')
+  const format = request.nextUrl.searchParams.get('format') as ProductionFormat | null
+
+  if (!isAdminConfigured()) {
+    console.error('Error exporting design: Firebase Admin credentials are missing')
+    return new NextResponse('Export is not configured on this server', { status: 500 })
+  }
+
+  if (!(await verifyAdminRequest(request))) {
+    return new NextResponse('Unauthorized', { status: 401 })
+  }
+
+  if (!panelType || !format || !(format in FORMATS)) {
+    return new NextResponse('Missing or invalid panel/format parameter', { status: 400 })
+  }
+
+  try {
+    const adminDb = getAdminDb()
+    const designDoc = await adminDb.collection('designs').doc(id).get()
+    if (!designDoc.exists) {
+      return new NextResponse('Design not found', { status: 404 })
+    }
+
+    const design = normalizeDesign({ ...designDoc.data(), id: designDoc.id } as DesignData)
+    const panel = design.panels.find(p => p.panelType === panelType)
+    if (!panel) {
+      return new NextResponse(`Design has no ${panelType} panel`, { status: 404 })
+    }
+
+    const productDoc = await adminDb.collection('products').doc(design.caseId).get()
+    const productPanel = normalizeProductPanels(productDoc.data()?.panels).find(p => p.panelType === panelType)
+    if (!productPanel) {
+      return new NextResponse(`Product has no ${panelType} panel`, { status: 404 })
+    }
+
+    let images: Record<string, string> | undefined
+    if (format === 'svg') {
+      try {
+        images = readImages(await request.json().catch(() => null), panel)
+      } catch (error) {
+        return new NextResponse(error instanceof Error ? error.message : 'Invalid images', { status: 400 })
+      }
+    }
+
+    const job: ProductionJob = {
+      orderId: request.nextUrl.searchParams.get('orderId') || design.id || id,
+      design,
+      panel,
+      productPanel,
+      images
+    }
+
+    const body = format === 'svg' ? buildPanelSvg(job) : buildPanelDxf(job)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': FORMATS[format],
+        'Content-Disposition': `attachment; filename="${productionFileName(job, format)}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting design:', error)
+    return new NextResponse('Error exporting design', { status: 500 })
+  }
+}
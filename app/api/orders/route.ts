@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FieldValue } from 'firebase-admin/firestore'
+import { DesignData, normalizeDesign } from '@/app/lib/design'
+import { getAdminBucket, getAdminDb, isAdminConfigured, verifyUserRequest } from '@/app/lib/firebaseAdmin'
+import { readImageSize } from '@/app/lib/imageSize'
+import { normalizeProductPanels } from '@/app/lib/panels'
+import { PixelSize, getDesignPrintQuality, normalizeMinPrintDpi } from '@/app/lib/printQuality'
+
+// JPEG metadata can push the frame header tens of kilobytes into the file
+const IMAGE_HEADER_BYTES = 256 * 1024
+
+// Path of an object in the app's Storage bucket from its download URL, or null for anything else
+function storagePath(url: string): string | null {
+  const bucket = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET
+  if (!bucket) return null
+  try {
+    const { hostname, pathname } = new URL(url)
+    const prefix = `/v0/b/${encodeURIComponent(bucket)}/o/`
+    return hostname === 'firebasestorage.googleapis.com' && pathname.startsWith(prefix)
+      ? decodeURIComponent(pathname.slice(prefix.length))
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Pixel size of each visible uploaded image, read from Storage rather than
+ * taken from the design document, which its owner can edit. Images that
+ * can't be read are left out, and so fail the check.
+ */
+async function measureImages(design: DesignData): Promise<Record<string, PixelSize>> {
+  const urls = new Set(design.panels.flatMap(panel => panel.layers.flatMap(layer => layer.type === 'image' && layer.visible ? [layer.imageUrl] : [])))
+  const sizes = await Promise.all(Array.from(urls).map(async url => {
+    const path = storagePath(url)
+    if (!path) return []
+    try {
+      const [bytes] = await getAdminBucket().file(path).download({ start: 0, end: IMAGE_HEADER_BYTES - 1 })
+      const size = readImageSize(bytes)
+      return size ? [[url, size] as const] : []
+    } catch (error) {
+      console.error(`Error reading image ${path}:`, error)
+      return []
+    }
+  }))
+  return Object.fromEntries(sizes.flat())
+}
+
+/**
+ * Places an order for one of the signed-in user's saved designs. Body:
+ * `{ designId }`. Every visible image layer has to meet the product's minimum
+ * print resolution, the same check that disables checkout in the designer.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminConfigured()) {
+    console.error('Error creating order: Firebase Admin credentials are missing')
+    return new NextResponse('Ordering is not configured on this server', { status: 500 })
+  }
+
+  const uid = await verifyUserRequest(request)
+  if (!uid) {
+    return new NextResponse('Unauthorized', { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const designId = body && typeof body === 'object' ? (body as { designId?: unknown }).designId : null
+  if (typeof designId !== 'string' || !designId) {
+    return new NextResponse('Missing designId', { status: 400 })
+  }
+
+  try {
+    const adminDb = getAdminDb()
+    const designDoc = await adminDb.collection('designs').doc(designId).get()
+    if (!designDoc.exists || designDoc.data()?.userId !== uid) {
+      return new NextResponse('Design not found', { status: 404 })
+    }
+
+    const design = normalizeDesign({ ...designDoc.data(), id: designDoc.id } as DesignData)
+    const productDoc = await adminDb.collection('products').doc(design.caseId).get()
+    const product = productDoc.data()
+    if (!product) {
+      return new NextResponse('Product not found', { status: 404 })
+    }
+
+    // Sizes recorded in the document are replaced by what's actually in Storage
+    const measured = await measureImages(design)
+    const checked: DesignData = {
+      ...design,
+      panels: design.panels.map(panel => ({
+        ...panel,
+        layers: panel.layers.map(layer => layer.type === 'image' ? { ...layer, pixelSize: measured[layer.imageUrl] } : layer)
+      }))
+    }
+
+    const unmeasured = checked.panels.flatMap(panel => panel.layers)
+      .filter(layer => layer.type === 'image' && layer.visible && !layer.pixelSize)
+    if (unmeasured.length > 0) {
+      return new NextResponse(`Couldn't check the resolution of ${unmeasured.map(layer => layer.name).join(', ')}. Please upload ${unmeasured.length === 1 ? 'it' : 'them'} again.`, { status: 422 })
+    }
+
+    const minDpi = normalizeMinPrintDpi(product.minPrintDpi)
+    const low = getDesignPrintQuality(checked, normalizeProductPanels(product.panels), minDpi).filter(q => q.quality === 'low')
+    if (low.length > 0) {
+      return new NextResponse(`${low.map(q => q.layer.name).join(', ')} ${low.length === 1 ? 'is' : 'are'} below the ${minDpi} DPI needed for a clean etch.`, { status: 422 })
+    }
+
+    const price = typeof product.price === 'number' ? product.price : 0
+    const order = await adminDb.collection('orders').add({
+      userId: uid,
+      designId: designDoc.id,
+      caseId: design.caseId,
+      status: 'pending',
+      date: new Date().toISOString().slice(0, 10),
+      total: price,
+      items: [{ id: design.caseId, name: product.name || '', price, quantity: 1, image: product.image || '' }],
+      createdAt: FieldValue.serverTimestamp()
+    })
+
+    return NextResponse.json({ orderId: order.id })
+  } catch (error) {
+    console.error('Error creating order:', error)
+    return new NextResponse('Error creating order', { status: 500 })
+  }
+}
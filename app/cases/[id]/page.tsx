@@ -4,11 +4,14 @@ import { useParams } from 'next/navigation'
 import Link from 'next/link'
 import { motion } from 'framer-motion'
 import Image from 'next/image'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { collection, getDocs } from 'firebase/firestore'
 import { db } from '@/app/lib/firebase'
 import { Loader } from '@/app/components/Loader'
 import { useAuth } from '@/app/hooks/useAuth'
+import { useHardwareBuild } from '@/app/hooks/useHardwareBuild'
+import CompatibilityBadge from '@/app/components/CompatibilityBadge'
+import { checkClearance, getCaseClearance } from '@/app/lib/clearance'
 import { useRouter } from 'next/navigation'
 import Header from '../../page_build/Header' 
 
@@ -26,6 +29,8 @@ interface CaseData {
     formFactor: string
     maxGPULength: string
     maxCPUCoolerHeight: string
+    // Only on products saved since radiator support was added
+    maxRadiatorSize?: string
     includedFans: string
   }
 }
@@ -38,6 +43,11 @@ export default function CasePage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isHovered, setIsHovered] = useState(false)
+  const [hardwareBuild] = useHardwareBuild()
+  const clearanceChecks = useMemo(
+    () => caseData ? checkClearance(getCaseClearance(caseData.specifications), hardwareBuild) : [],
+    [caseData, hardwareBuild]
+  )
 
   useEffect(() => {
     const fetchCase = async () => {
@@ -164,6 +174,11 @@ export default function CasePage() {
                 <p className="text-3xl font-bold text-blue-600 mb-6">${caseData.price}</p>
                 <p className="text-gray-600 mb-8 text-lg">{caseData.description}</p>
 
+                {/* Hardware fit */}
+                <div className="mb-8">
+                  <CompatibilityBadge checks={clearanceChecks} />
+                </div>
+
                 {/* Features */}
                 <div className="mb-8">
                   <h2 className="text-2xl font-bold font-cairo mb-4 text-gray-800">Features</h2>
@@ -1,15 +1,56 @@
 'use client'
 
-import { useParams, useRouter } from 'next/navigation'
+import { useParams, usePathname, useRouter, useSearchParams } from 'next/navigation'
 import { useEffect, useState, useRef } from 'react'
 import { useAuth } from '@/app/hooks/useAuth'
+import { useDraftAutosave } from '@/app/hooks/useDraftAutosave'
+import { useHistory } from '@/app/hooks/useHistory'
+import { usePrintQuality } from '@/app/hooks/usePrintQuality'
+import { useTransformGestures } from '@/app/hooks/useTransformGestures'
 import { Loader } from '@/app/components/Loader'
-import Image from 'next/image'
-import { collection, query, where, getDocs, doc, setDoc, getDoc } from 'firebase/firestore'
-import { db, storage } from '@/app/lib/firebase'
+import { collection, query, where, getDocs } from 'firebase/firestore'
+import { auth, db, storage } from '@/app/lib/firebase'
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage'
 import { ErrorBoundary } from 'react-error-boundary'
 import dynamic from 'next/dynamic'
+import DesignPicker from '@/app/components/DesignPicker'
+import DraftRestorePrompt from '@/app/components/DraftRestorePrompt'
+import EtchProcessingControls from '@/app/components/EtchProcessingControls'
+import ImageFilterControls from '@/app/components/ImageFilterControls'
+import LayerList from '@/app/components/LayerList'
+import LayerView from '@/app/components/LayerView'
+import PanelGuides from '@/app/components/PanelGuides'
+import PrintQualityBadge from '@/app/components/PrintQualityBadge'
+import TextLayerControls from '@/app/components/TextLayerControls'
+import TransformHandles from '@/app/components/TransformHandles'
+import ViewerExportPanel from '@/app/components/ViewerExportPanel'
+import ViewerLoadStatus from '@/app/components/ViewerLoadStatus'
+import {
+  DesignData,
+  DesignLayer,
+  PanelDesign,
+  PanelType,
+  TextLayer,
+  alignDesignPanels,
+  createDesign,
+  createImageLayer,
+  createTextLayer,
+  createVectorLayer,
+  hasVisibleLayers,
+  moveLayerInPanel,
+  removeLayerFromPanel,
+  updateLayerInPanel
+} from '@/app/lib/design'
+import { CaseClearance, getCaseClearance } from '@/app/lib/clearance'
+import { deleteDesign, duplicateDesign, listDesigns, loadDesign, renameDesign, saveDesign, saveDesignThumbnail } from '@/app/lib/designStore'
+import { deleteDraft, draftKey, listDrafts } from '@/app/lib/draftStore'
+import { DEFAULT_FONT_ID } from '@/app/lib/fonts'
+import { measureTextLayer } from '@/app/lib/layerRaster'
+import { DEFAULT_PANEL_TYPES, ProductPanel, findLayerConflicts, getProductPanel, normalizeProductPanels } from '@/app/lib/panels'
+import { DEFAULT_MIN_PRINT_DPI, normalizeMinPrintDpi } from '@/app/lib/printQuality'
+import { MeshMapping, getProductModel } from '@/app/lib/productModel'
+import { sanitizeSvg } from '@/app/lib/svg'
+import { LoadProgress, ViewerCallbacks, ViewerController } from '@/app/lib/viewer'
 
 // Dynamically import Scene with no SSR
 const Scene = dynamic(() => import('@/app/components/Scene'), {
@@ -21,25 +62,22 @@ interface CaseData {
   id: string
   name: string
   model3D: string
+  modelVersion?: string
+  // Which meshes of `model3D` show which panel
+  meshMapping: MeshMapping
   image: string
+  panels: ProductPanel[]
+  // Image layers below this effective resolution block checkout
+  minPrintDpi: number
+  clearance: CaseClearance
 }
 
-interface PanelDesign {
-  panelType: 'back' | 'glass'
-  imageUrl?: string
-  position: { x: number, y: number }
-  scale: { width: number, height: number }
-  rotation: number
-}
+type SavedDesign = DesignData & { id: string }
 
-interface DesignData {
-  id?: string
-  userId: string
-  caseId: string
-  name: string
-  panels: PanelDesign[]
-  createdAt: number
-  updatedAt: number
+// Everything undo/redo steps through; selection is deliberately left out
+interface EditorState {
+  design: DesignData | null
+  activePanel: PanelType
 }
 
 function ErrorFallback({ error }: { error: Error }) {
@@ -56,21 +94,49 @@ function ErrorFallback({ error }: { error: Error }) {
 export default function PersonalizationPage() {
   const params = useParams()
   const router = useRouter()
+  const pathname = usePathname()
+  // `?design=<id>` opens a saved design, `?design=new` a blank one; no parameter shows the picker
+  const designParam = useSearchParams().get('design')
   const { user } = useAuth()
   const [loading, setLoading] = useState(true)
   const [caseData, setCaseData] = useState<CaseData | null>(null)
   const [error, setError] = useState<string | null>(null)
-  const [activePanel, setActivePanel] = useState<'back' | 'glass'>('back')
-  const [designData, setDesignData] = useState<DesignData | null>(null)
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null)
-  const [imagePosition, setImagePosition] = useState({ x: 50, y: 50 })
-  const [imageScale, setImageScale] = useState({ width: 100, height: 100 })
-  const [imageRotation, setImageRotation] = useState(0)
+  const history = useHistory<EditorState>({ design: null, activePanel: DEFAULT_PANEL_TYPES[0] })
+  const { design: designData, activePanel } = history.present
+  const drafts = useDraftAutosave(designData)
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null)
+  const [designs, setDesigns] = useState<SavedDesign[] | null>(null)
+  // Saved designs with unsynced changes on this device
+  const [draftDesignIds, setDraftDesignIds] = useState<string[]>([])
+  const [busyDesignId, setBusyDesignId] = useState<string | null>(null)
   const [mode, setMode] = useState<'design' | 'preview'>('design')
+  // Shows the 3D model beside the editor, following every edit without saving
+  const [livePreview, setLivePreview] = useState(false)
+  const [modelProgress, setModelProgress] = useState<LoadProgress | null>(null)
+  const [viewerError, setViewerError] = useState<string | null>(null)
   const [saving, setSaving] = useState(false)
-  const [isDragging, setIsDragging] = useState(false)
+  const [ordering, setOrdering] = useState(false)
+  const [uploading, setUploading] = useState(false)
   const canvasRef = useRef<HTMLDivElement>(null)
-  const imageRef = useRef<HTMLDivElement>(null)
+  const panelRef = useRef<HTMLDivElement>(null)
+  const viewerRef = useRef<ViewerController | null>(null)
+  // Latest measurement request per text layer, so slow font loads can't apply stale sizes
+  const textMeasureRef = useRef<Record<string, number>>({})
+
+  const activePanelDesign = designData?.panels.find(p => p.panelType === activePanel) || null
+  const selectedLayer = activePanelDesign?.layers.find(layer => layer.id === selectedLayerId) || null
+  const panelGeometry = getProductPanel(caseData?.panels, activePanel)
+  const isGlassPanel = panelGeometry.surface === 'glass'
+  const layerConflicts = (activePanelDesign?.layers || [])
+    .filter(layer => layer.visible)
+    .map(layer => ({ layer, ...findLayerConflicts(layer, panelGeometry) }))
+    .filter(conflict => conflict.zones.length > 0 || conflict.outsideSafeArea)
+  const printQuality = usePrintQuality(designData, caseData?.panels, caseData?.minPrintDpi || DEFAULT_MIN_PRINT_DPI)
+  const activePrintQuality = Object.fromEntries(printQuality.filter(q => q.panelType === activePanel).map(q => [q.layer.id, q]))
+  const selectedPrintQuality = selectedLayer ? activePrintQuality[selectedLayer.id] : undefined
+  const lowResolutionLayers = printQuality.filter(q => q.quality === 'low')
+  const activeLowResolution = lowResolutionLayers.filter(q => q.panelType === activePanel)
+  const panelOutlineRadius = `${(panelGeometry.cornerRadius / panelGeometry.width) * 100}% / ${(panelGeometry.cornerRadius / panelGeometry.height) * 100}%`
 
   const fetchData = async () => {
     try {
@@ -83,62 +149,57 @@ export default function PersonalizationPage() {
       
       if (!querySnapshot.empty) {
         const data = querySnapshot.docs[0].data()
+        const productPanels = normalizeProductPanels(data.panels)
+        const panelTypes = productPanels.map(panel => panel.panelType)
+        const { modelPath, modelVersion, meshMapping } = getProductModel(data)
         
         setCaseData({
           id: querySnapshot.docs[0].id,
           name: data.name,
-          model3D: '/3d/Corsair4000D-3D.glb',  // Using local path
-          image: data.image
+          model3D: modelPath,
+          modelVersion,
+          meshMapping,
+          image: data.image,
+          panels: productPanels,
+          minPrintDpi: normalizeMinPrintDpi(data.minPrintDpi),
+          clearance: getCaseClearance(data.specifications)
         })
 
-        // Check if user has an existing design for this case
+        const caseId = querySnapshot.docs[0].id
         if (user) {
-          const designsRef = collection(db, 'designs')
-          const designQuery = query(
-            designsRef,
-            where('userId', '==', user.uid),
-            where('caseId', '==', querySnapshot.docs[0].id)
-          )
-          
-          const designSnapshot = await getDocs(designQuery)
-          
-          if (!designSnapshot.empty) {
-            // Load existing design
-            const existingDesign = designSnapshot.docs[0].data() as DesignData
-            existingDesign.id = designSnapshot.docs[0].id
-            setDesignData(existingDesign)
-            
-            // Set initial panel data if available
-            const backPanel = existingDesign.panels.find(p => p.panelType === 'back')
-            if (backPanel && backPanel.imageUrl) {
-              setUploadedImage(backPanel.imageUrl)
-              setImagePosition(backPanel.position)
-              setImageScale(backPanel.scale)
-              setImageRotation(backPanel.rotation)
+          if (!designParam) {
+            // Show the picker, unless there is nothing to pick from yet
+            const userDesigns = await listDesigns(user.uid, caseId) as SavedDesign[]
+            setDesigns(userDesigns)
+            listDrafts(user.uid, caseId)
+              .then(stored => setDraftDesignIds(stored.flatMap(draft => draft.designId ? [draft.designId] : [])))
+              .catch(err => console.error('Error listing drafts:', err))
+            if (userDesigns.length === 0) {
+              router.replace(`${pathname}?design=new`)
             }
+          } else if (designParam === 'new') {
+            const newDesign = createDesign(user.uid, caseId, `${data.name} Design`, panelTypes)
+            setDesigns(null)
+            history.reset({ design: newDesign, activePanel: panelTypes[0] })
+            setSelectedLayerId(null)
+            setMode('design')
+            await drafts.open(newDesign, null)
           } else {
-            // Create new design data
-            setDesignData({
-              userId: user.uid,
-              caseId: querySnapshot.docs[0].id,
-              name: `${data.name} Design`,
-              panels: [
-                {
-                  panelType: 'back',
-                  position: { x: 50, y: 50 },
-                  scale: { width: 100, height: 100 },
-                  rotation: 0
-                },
-                {
-                  panelType: 'glass',
-                  position: { x: 50, y: 50 },
-                  scale: { width: 100, height: 100 },
-                  rotation: 0
-                }
-              ],
-              createdAt: Date.now(),
-              updatedAt: Date.now()
-            })
+            const existingDesign = await loadDesign(designParam)
+            if (!existingDesign || existingDesign.userId !== user.uid || existingDesign.caseId !== caseId) {
+              setError('Design not found')
+              return
+            }
+
+            const alignedDesign = alignDesignPanels(existingDesign, panelTypes)
+            setDesigns(null)
+            history.reset({ design: alignedDesign, activePanel: panelTypes[0] })
+            setMode('design')
+            await drafts.open(alignedDesign, existingDesign.updatedAt)
+
+            const firstPanel = alignedDesign.panels[0]
+            const topLayer = firstPanel?.layers[firstPanel.layers.length - 1]
+            setSelectedLayerId(topLayer ? topLayer.id : null)
           }
         }
       } else {
@@ -153,109 +214,152 @@ export default function PersonalizationPage() {
   }
 
   useEffect(() => {
+    // Saving a new design puts its ID in the URL; that's already the open document
+    if (designParam && designParam === designData?.id) return
     if (params.id && user) {
       fetchData()
     }
-  }, [params.id, user])
-
-  // Apply designs to 3D model when switching to preview mode
-  useEffect(() => {
-    if (mode === 'preview' && designData && window && (window as any).applyDesignTexture) {
-      designData.panels.forEach(panel => {
-        if (panel.imageUrl) {
-          (window as any).applyDesignTexture(panel.panelType, panel.imageUrl);
+  }, [params.id, user, designParam])
+
+  // `coalesce` merges rapid updates (drags, slider moves, typing) into one undo step
+  const updateActivePanel = (update: (panel: PanelDesign) => PanelDesign, coalesce?: string) => {
+    history.set(current => {
+      if (!current.design) return current
+      return {
+        ...current,
+        design: {
+          ...current.design,
+          panels: current.design.panels.map(panel => panel.panelType === current.activePanel ? update(panel) : panel),
+          updatedAt: Date.now()
         }
-      });
+      }
+    }, { coalesce })
+  }
+
+  const updateLayer = (layerId: string, patch: Partial<DesignLayer>, coalesce?: string) => {
+    updateActivePanel(panel => updateLayerInPanel(panel, layerId, patch), coalesce)
+  }
+
+  const gestures = useTransformGestures({
+    panelRef,
+    getLayer: (layerId) => activePanelDesign?.layers.find(layer => layer.id === layerId),
+    onChange: (layerId, patch) => updateLayer(layerId, patch, `transform:${layerId}`)
+  })
+
+  const getPanelAspect = () => {
+    const panelBox = panelRef.current?.getBoundingClientRect()
+    return panelBox && panelBox.height > 0 ? panelBox.width / panelBox.height : 1
+  }
+
+  // Text boxes are sized by their font, so re-measure whenever the text itself changes
+  const fitTextLayer = async (layer: TextLayer) => {
+    const request = (textMeasureRef.current[layer.id] || 0) + 1
+    textMeasureRef.current[layer.id] = request
+
+    try {
+      const scale = await measureTextLayer(layer, getPanelAspect())
+      if (textMeasureRef.current[layer.id] === request) {
+        updateLayer(layer.id, { scale }, `text:${layer.id}`)
+      }
+    } catch (err) {
+      console.error('Failed to measure text layer:', err)
     }
-  }, [mode, designData]);
+  }
+
+  const handleAddText = () => {
+    const layer = createTextLayer(DEFAULT_FONT_ID)
+    updateActivePanel(panel => ({ ...panel, layers: [...panel.layers, layer] }), `text:${layer.id}`)
+    setSelectedLayerId(layer.id)
+    fitTextLayer(layer)
+  }
+
+  const handleTextChange = (layer: TextLayer, patch: Partial<TextLayer>) => {
+    updateLayer(layer.id, patch, `text:${layer.id}`)
+    fitTextLayer({ ...layer, ...patch })
+  }
+
+  // Vector artwork stays in the design document as paths rather than going through Storage
+  const addVectorLayer = async (file: File) => {
+    try {
+      const { svg, viewBox } = sanitizeSvg(await file.text())
+      const width = 40
+      const height = Math.min(90, width * getPanelAspect() * (viewBox.height / viewBox.width))
+
+      const layer = createVectorLayer(svg, viewBox, file.name, { scale: { width, height } })
+      updateActivePanel(panel => ({ ...panel, layers: [...panel.layers, layer] }))
+      setSelectedLayerId(layer.id)
+    } catch (error) {
+      console.error('SVG import error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to import SVG. Please try again.')
+    }
+  }
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
-    if (!file || !user) return
+    event.target.value = ''
+    if (!file || !user || !designData) return
+
+    if (file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')) {
+      await addVectorLayer(file)
+      return
+    }
+
+    const tempUrl = URL.createObjectURL(file)
 
     try {
-      // Create a temporary URL for preview
-      const tempUrl = URL.createObjectURL(file)
-      setUploadedImage(tempUrl)
-      
+      setUploading(true)
+
+      // Read the image's proportions so the new layer isn't stretched
+      const dimensions = await new Promise<{ width: number, height: number }>((resolve, reject) => {
+        const img = new Image()
+        img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight })
+        img.onerror = () => reject(new Error('Unsupported image file'))
+        img.src = tempUrl
+      })
+
       // Upload to Firebase Storage
       const storageRef = ref(storage, `designs/${user.uid}/${Date.now()}_${file.name}`)
       const snapshot = await uploadBytes(storageRef, file)
       const downloadUrl = await getDownloadURL(snapshot.ref)
-      
-      // Update design data
-      if (designData) {
-        const updatedPanels = designData.panels.map(panel => {
-          if (panel.panelType === activePanel) {
-            return {
-              ...panel,
-              imageUrl: downloadUrl,
-              position: imagePosition,
-              scale: imageScale,
-              rotation: imageRotation
-            }
-          }
-          return panel
-        })
-        
-        setDesignData({
-          ...designData,
-          panels: updatedPanels,
-          updatedAt: Date.now()
-        })
-      }
-      
-      // Revoke the temporary URL
-      URL.revokeObjectURL(tempUrl)
-      
-      // Set the permanent URL
-      setUploadedImage(downloadUrl)
+
+      const width = 40
+      const height = Math.min(90, width * getPanelAspect() * (dimensions.height / dimensions.width))
+
+      const layer = createImageLayer(downloadUrl, file.name, { scale: { width, height } }, dimensions)
+      updateActivePanel(panel => ({ ...panel, layers: [...panel.layers, layer] }))
+      setSelectedLayerId(layer.id)
     } catch (error) {
       console.error('Upload error:', error)
       alert('Failed to upload image. Please try again.')
+    } finally {
+      URL.revokeObjectURL(tempUrl)
+      setUploading(false)
     }
   }
 
-  const handleSaveDesign = async () => {
-    if (!designData || !user) return
+  const handleSaveDesign = async (openPreview = true) => {
+    if (!designData || !user || !caseData) return
     
     try {
       setSaving(true)
       
-      // Update the current panel data
-      const updatedPanels = designData.panels.map(panel => {
-        if (panel.panelType === activePanel) {
-          return {
-            ...panel,
-            position: imagePosition,
-            scale: imageScale,
-            rotation: imageRotation
-          }
-        }
-        return panel
-      })
+      const savedDesign = await saveDesign(designData)
+      drafts.markSaved(designData.updatedAt, savedDesign.updatedAt)
       
-      const updatedDesign = {
-        ...designData,
-        panels: updatedPanels,
-        updatedAt: Date.now()
+      // Keep the document ID on every undo step so an undo can't fork a second document
+      history.patchAll(entry => entry.design ? { ...entry, design: { ...entry.design, id: savedDesign.id } } : entry)
+      if (designParam !== savedDesign.id) {
+        router.replace(`${pathname}?design=${savedDesign.id}`)
       }
+
+      // The picker thumbnail is nice to have, so don't fail the save over it
+      saveDesignThumbnail(savedDesign, caseData.panels).catch(err => {
+        console.error('Thumbnail error:', err)
+      })
       
-      // Save to Firestore
-      if (designData.id) {
-        // Update existing design
-        await setDoc(doc(db, 'designs', designData.id), updatedDesign, { merge: true })
-      } else {
-        // Create new design
-        const designRef = doc(collection(db, 'designs'))
-        await setDoc(designRef, updatedDesign)
-        updatedDesign.id = designRef.id
+      if (openPreview) {
+        setMode('preview')
       }
-      
-      setDesignData(updatedDesign)
-      
-      // Switch to preview mode
-      setMode('preview')
     } catch (error) {
       console.error('Save error:', error)
       alert('Failed to save design. Please try again.')
@@ -264,57 +368,157 @@ export default function PersonalizationPage() {
     }
   }
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (!uploadedImage || !imageRef.current) return;
-    setIsDragging(true);
-  };
-
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !canvasRef.current || !uploadedImage) return;
-    
-    const container = canvasRef.current.getBoundingClientRect();
-    const x = ((e.clientX - container.left) / container.width) * 100;
-    const y = ((e.clientY - container.top) / container.height) * 100;
-    
-    setImagePosition({ x, y });
-  };
+  // The order route checks print resolution again, so the disabled button isn't the only guard
+  const handleCheckout = async () => {
+    if (!designData?.id) return
 
-  const handleMouseUp = () => {
-    setIsDragging(false);
-  };
+    try {
+      setOrdering(true)
+      const token = await auth.currentUser?.getIdToken()
+      if (!token) {
+        throw new Error('Please sign in again to place your order.')
+      }
 
-  const handlePanelChange = (panel: 'back' | 'glass') => {
-    setActivePanel(panel)
-    
-    // Load panel data if available
-    if (designData) {
-      const panelData = designData.panels.find(p => p.panelType === panel)
-      if (panelData) {
-        setUploadedImage(panelData.imageUrl || null)
-        setImagePosition(panelData.position)
-        setImageScale(panelData.scale)
-        setImageRotation(panelData.rotation)
-      } else {
-        setUploadedImage(null)
-        setImagePosition({ x: 50, y: 50 })
-        setImageScale({ width: 100, height: 100 })
-        setImageRotation(0)
+      const response = await fetch('/api/orders', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ designId: designData.id })
+      })
+      if (!response.ok) {
+        throw new Error(await response.text())
       }
+      const { orderId } = await response.json()
+      router.push(`/checkout?order=${encodeURIComponent(orderId)}`)
+    } catch (error) {
+      console.error('Checkout error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to place your order. Please try again.')
+    } finally {
+      setOrdering(false)
     }
   }
 
-  const handleBackToDesign = () => {
-    setMode('design');
-  };
+  // Restoring is an undoable step, so the saved version is one undo away
+  const handleRestoreDraft = () => {
+    const restored = drafts.restore()
+    if (!restored) return
+
+    const panelTypes = caseData?.panels.map(panel => panel.panelType) || DEFAULT_PANEL_TYPES
+    history.set(current => ({ ...current, design: alignDesignPanels({ ...restored, id: current.design?.id }, panelTypes) }))
+    const panelData = restored.panels.find(p => p.panelType === activePanel)
+    const topLayer = panelData?.layers[panelData.layers.length - 1]
+    setSelectedLayerId(topLayer ? topLayer.id : null)
+  }
+
+  const openDesign = (designId: string) => {
+    router.push(`${pathname}?design=${designId}`)
+  }
+
+  const handleDuplicateDesign = async (design: SavedDesign) => {
+    try {
+      setBusyDesignId(design.id)
+      const copy = await duplicateDesign(design, `${design.name} (copy)`)
+      setDesigns(current => current ? [copy, ...current] : [copy])
+
+      const thumbnailUrl = await saveDesignThumbnail(copy, caseData?.panels)
+      setDesigns(current => current?.map(d => d.id === copy.id ? { ...d, thumbnailUrl } : d) || null)
+    } catch (error) {
+      console.error('Duplicate error:', error)
+      alert('Failed to duplicate design. Please try again.')
+    } finally {
+      setBusyDesignId(null)
+    }
+  }
+
+  const handleRenameDesign = async (design: SavedDesign, name: string) => {
+    try {
+      setBusyDesignId(design.id)
+      await renameDesign(design.id, name)
+      setDesigns(current => current?.map(d => d.id === design.id ? { ...d, name, updatedAt: Date.now() } : d) || null)
+    } catch (error) {
+      console.error('Rename error:', error)
+      alert('Failed to rename design. Please try again.')
+    } finally {
+      setBusyDesignId(null)
+    }
+  }
+
+  const handleDeleteDesign = async (design: SavedDesign) => {
+    if (!window.confirm(`Delete "${design.name}"? This can't be undone.`)) return
+
+    try {
+      setBusyDesignId(design.id)
+      await deleteDesign(design)
+      deleteDraft(draftKey(design.userId, design.caseId, design.id)).catch(err => {
+        console.error('Error deleting draft:', err)
+      })
+      setDesigns(current => current?.filter(d => d.id !== design.id) || null)
+    } catch (error) {
+      console.error('Delete error:', error)
+      alert('Failed to delete design. Please try again.')
+    } finally {
+      setBusyDesignId(null)
+    }
+  }
+
+  const handlePanelChange = (panel: PanelType) => {
+    if (panel === activePanel) return
+    history.set(current => ({ ...current, activePanel: panel }))
+
+    // Select the top layer of the new panel, if it has any
+    const panelData = designData?.panels.find(p => p.panelType === panel)
+    const topLayer = panelData?.layers[panelData.layers.length - 1]
+    setSelectedLayerId(topLayer ? topLayer.id : null)
+  }
+
+  const handleDeleteLayer = (layerId: string) => {
+    updateActivePanel(panel => removeLayerFromPanel(panel, layerId))
+    if (layerId === selectedLayerId) {
+      setSelectedLayerId(null)
+    }
+  }
+
+  const { undo, redo } = history
 
-  // Add this useEffect to listen for the backToDesign event
   useEffect(() => {
-    window.addEventListener('backToDesign', handleBackToDesign);
-    
-    return () => {
-      window.removeEventListener('backToDesign', handleBackToDesign);
-    };
-  }, []);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+
+      // Leave text fields to their own native undo
+      const target = e.target as HTMLElement
+      if (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'text')) return
+
+      const key = e.key.toLowerCase()
+      if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      } else if (key === 'z') {
+        e.preventDefault()
+        undo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // Shared by the live and full-page viewers; only one is shown at a time
+  const viewerCallbacks: ViewerCallbacks = {
+    onLoadProgress: (progress) => {
+      setModelProgress(progress)
+      setViewerError(null)
+    },
+    onLoad: () => setModelProgress(null),
+    onError: (err) => {
+      setModelProgress(null)
+      setViewerError(err.message)
+    },
+    // Clicking a panel on the model opens it in the editor
+    onPanelSelect: (panelType) => {
+      if (!caseData?.panels.some(panel => panel.panelType === panelType)) return
+      setMode('design')
+      handlePanelChange(panelType)
+    }
+  }
 
   if (loading) {
     return (
@@ -335,82 +539,186 @@ export default function PersonalizationPage() {
     )
   }
 
+  if (!designParam && designs) {
+    return (
+      <div className="w-full min-h-screen bg-gray-900">
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <h1 className="text-3xl font-bold text-white mb-2">{caseData.name} Customization</h1>
+          <p className="text-gray-400 mb-8">Pick up where you left off, or start a new design.</p>
+          <DesignPicker
+            designs={designs}
+            draftIds={draftDesignIds}
+            busyId={busyDesignId}
+            onOpen={(design) => openDesign(design.id)}
+            onCreate={() => openDesign('new')}
+            onDuplicate={handleDuplicateDesign}
+            onRename={handleRenameDesign}
+            onDelete={handleDeleteDesign}
+          />
+        </div>
+      </div>
+    )
+  }
+
+  const hasAnyLayers = designData?.panels.some(panel => hasVisibleLayers(panel)) || false
+  const canEditSelected = selectedLayer !== null && !selectedLayer.locked
+
   return (
     <div className="w-full min-h-screen bg-gray-900">
-      <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className={`${mode === 'design' && livePreview ? 'max-w-screen-2xl' : 'max-w-7xl'} mx-auto px-4 py-8`}>
         <div className="flex justify-between items-center mb-8">
-          <h1 className="text-3xl font-bold text-white">{caseData.name} Customization</h1>
+          <div>
+            <h1 className="text-3xl font-bold text-white">{caseData.name} Customization</h1>
+            {designData && (
+              <p className="text-gray-400 mt-1">
+                {designData.name}
+                <span className={`ml-3 text-sm ${drafts.isDirty ? 'text-yellow-400' : 'text-gray-500'}`}>
+                  {drafts.isDirty
+                    ? `● Unsynced changes${drafts.draftSavedAt ? ' · draft kept on this device' : ''}`
+                    : designData.id ? 'All changes saved' : 'Not saved yet'}
+                </span>
+              </p>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => router.push(pathname)}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg"
+            >
+              My Designs
+            </button>
+            {mode === 'design' && (
+              <>
+                <button
+                  onClick={undo}
+                  disabled={!history.canUndo}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Undo (Ctrl+Z)"
+                >
+                  Undo
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={!history.canRedo}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  Redo
+                </button>
+                <button
+                  onClick={() => setLivePreview(!livePreview)}
+                  className={`px-4 py-2 text-white rounded-lg ${livePreview ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                  {livePreview ? 'Hide 3D' : 'Live 3D'}
+                </button>
+                <button
+                  onClick={() => handleSaveDesign(false)}
+                  disabled={saving || !drafts.isDirty}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </>
+            )}
+          </div>
         </div>
 
+        {drafts.pendingDraft && (
+          <DraftRestorePrompt
+            pendingDraft={drafts.pendingDraft}
+            onRestore={handleRestoreDraft}
+            onDiscard={drafts.discard}
+          />
+        )}
+
         {mode === 'design' ? (
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className={`grid grid-cols-1 ${livePreview ? 'lg:grid-cols-5' : 'lg:grid-cols-3'} gap-8`}>
             {/* Panel Selection */}
             <div className="bg-gray-800 rounded-xl p-6">
               <h2 className="text-xl font-semibold text-white mb-4">Select Panel</h2>
               <div className="flex flex-col space-y-4">
-                <button
-                  onClick={() => handlePanelChange('back')}
-                  className={`p-4 rounded-lg flex items-center ${activePanel === 'back' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
-                >
-                  <div className="w-8 h-8 bg-gray-600 rounded mr-3"></div>
-                  <span>Back Panel</span>
-                </button>
-                <button
-                  onClick={() => handlePanelChange('glass')}
-                  className={`p-4 rounded-lg flex items-center ${activePanel === 'glass' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
-                >
-                  <div className="w-8 h-8 bg-gray-500 rounded mr-3"></div>
-                  <span>Glass Panel</span>
-                </button>
+                {caseData.panels.map(panel => (
+                  <button
+                    key={panel.panelType}
+                    onClick={() => handlePanelChange(panel.panelType)}
+                    className={`p-4 rounded-lg flex items-center ${activePanel === panel.panelType ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
+                  >
+                    <div className={`w-8 h-8 rounded mr-3 ${panel.surface === 'glass' ? 'bg-gray-500' : 'bg-gray-600'}`}></div>
+                    <span>{panel.label}</span>
+                  </button>
+                ))}
               </div>
 
               <div className="mt-8">
-                <h2 className="text-xl font-semibold text-white mb-4">Upload Image</h2>
-                <label className="block w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-center cursor-pointer">
-                  Upload Image
+                <h2 className="text-xl font-semibold text-white mb-4">Add Layer</h2>
+                <label className={`block w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-center cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+                  {uploading ? 'Uploading...' : 'Upload Image or SVG'}
                   <input
                     type="file"
                     className="hidden"
-                    accept=".png,.jpg,.jpeg"
+                    accept=".png,.jpg,.jpeg,.svg"
                     onChange={handleFileUpload}
                   />
                 </label>
+                <button
+                  onClick={handleAddText}
+                  className="block w-full mt-3 px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white rounded-lg"
+                >
+                  Add Text
+                </button>
               </div>
 
-              {uploadedImage && (
+              <div className="mt-8">
+                <h2 className="text-xl font-semibold text-white mb-4">Layers</h2>
+                <LayerList
+                  layers={activePanelDesign?.layers || []}
+                  selectedLayerId={selectedLayerId}
+                  printQuality={activePrintQuality}
+                  onSelect={setSelectedLayerId}
+                  onMove={(layerId, direction) => updateActivePanel(panel => moveLayerInPanel(panel, layerId, direction))}
+                  onToggleVisible={(layerId) => {
+                    const layer = activePanelDesign?.layers.find(l => l.id === layerId)
+                    if (layer) updateLayer(layerId, { visible: !layer.visible })
+                  }}
+                  onToggleLocked={(layerId) => {
+                    const layer = activePanelDesign?.layers.find(l => l.id === layerId)
+                    if (layer) updateLayer(layerId, { locked: !layer.locked })
+                  }}
+                  onDelete={handleDeleteLayer}
+                />
+              </div>
+
+              {selectedLayer && (
                 <div className="mt-8">
-                  <h2 className="text-xl font-semibold text-white mb-4">Adjust Image</h2>
+                  <h2 className="text-xl font-semibold text-white mb-4">Adjust Layer</h2>
+
+                  {selectedLayer.locked && (
+                    <p className="text-yellow-400 text-sm mb-4">This layer is locked. Unlock it to make changes.</p>
+                  )}
                   
                   <div className="space-y-6">
-                    <div>
-                      <label className="block text-gray-300 mb-2">Width</label>
-                      <div className="flex items-center">
-                        <input
-                          type="range"
-                          min="20"
-                          max="300"
-                          value={imageScale.width}
-                          onChange={(e) => setImageScale({...imageScale, width: parseInt(e.target.value)})}
-                          className="w-full mr-3"
-                        />
-                        <span className="text-gray-300 w-12 text-right">{imageScale.width}</span>
+                    {selectedPrintQuality && (
+                      <div>
+                        <div className="flex items-center justify-between mb-1">
+                          <label className="text-gray-300">Print Quality</label>
+                          <PrintQualityBadge quality={selectedPrintQuality.quality} dpi={selectedPrintQuality.dpi} />
+                        </div>
+                        {selectedPrintQuality.quality !== 'good' && (
+                          <p className="text-gray-400 text-xs">
+                            This image is being stretched over a large area. Make it smaller, or upload a higher resolution version
+                            {selectedPrintQuality.quality === 'low' && ` (at least ${caseData.minPrintDpi} DPI is needed to order)`}.
+                          </p>
+                        )}
                       </div>
-                    </div>
-                    
-                    <div>
-                      <label className="block text-gray-300 mb-2">Height</label>
-                      <div className="flex items-center">
-                        <input
-                          type="range"
-                          min="20"
-                          max="300"
-                          value={imageScale.height}
-                          onChange={(e) => setImageScale({...imageScale, height: parseInt(e.target.value)})}
-                          className="w-full mr-3"
-                        />
-                        <span className="text-gray-300 w-12 text-right">{imageScale.height}</span>
-                      </div>
-                    </div>
+                    )}
+
+                    {selectedLayer.type === 'text' && (
+                      <TextLayerControls
+                        layer={selectedLayer}
+                        disabled={!canEditSelected}
+                        onChange={(patch) => handleTextChange(selectedLayer, patch)}
+                      />
+                    )}
                     
                     <div>
                       <label className="block text-gray-300 mb-2">Rotation</label>
@@ -419,28 +727,40 @@ export default function PersonalizationPage() {
                           type="range"
                           min="0"
                           max="360"
-                          value={imageRotation}
-                          onChange={(e) => setImageRotation(parseInt(e.target.value))}
+                          value={Math.round(selectedLayer.rotation)}
+                          disabled={!canEditSelected}
+                          onChange={(e) => updateLayer(selectedLayer.id, { rotation: parseInt(e.target.value) }, `rotation:${selectedLayer.id}`)}
                           className="w-full mr-3"
                         />
-                        <span className="text-gray-300 w-12 text-right">{imageRotation}°</span>
+                        <span className="text-gray-300 w-12 text-right">{Math.round(selectedLayer.rotation)}°</span>
                       </div>
                     </div>
 
+                    {selectedLayer.type === 'image' && (
+                      <ImageFilterControls
+                        filters={selectedLayer.filters}
+                        disabled={!canEditSelected}
+                        onChange={(filters) => updateLayer(selectedLayer.id, { filters }, `filters:${selectedLayer.id}`)}
+                      />
+                    )}
+
+                    {selectedLayer.type !== 'text' && (
+                      <EtchProcessingControls
+                        processing={selectedLayer.processing}
+                        disabled={!canEditSelected}
+                        onChange={(processing) => updateLayer(selectedLayer.id, { processing }, `processing:${selectedLayer.id}`)}
+                      />
+                    )}
+
                     <div className="pt-4 border-t border-gray-700">
                       <p className="text-gray-400 text-sm mb-3">
-                        Drag the image to position it on the panel. Use the sliders to adjust size and rotation.
+                        Drag a layer to move it, and use its handles to resize or rotate. Hold Shift to keep proportions or snap rotation to 15°. On touch screens, pinch with two fingers.
                       </p>
                       <div className="flex space-x-2">
                         <button 
-                          onClick={() => setImageScale({width: 100, height: 100})}
-                          className="px-3 py-1 bg-gray-700 text-gray-300 rounded text-sm"
-                        >
-                          Reset Size
-                        </button>
-                        <button 
-                          onClick={() => setImageRotation(0)}
-                          className="px-3 py-1 bg-gray-700 text-gray-300 rounded text-sm"
+                          onClick={() => updateLayer(selectedLayer.id, { rotation: 0 })}
+                          disabled={!canEditSelected}
+                          className="px-3 py-1 bg-gray-700 text-gray-300 rounded text-sm disabled:opacity-50"
                         >
                           Reset Rotation
                         </button>
@@ -451,8 +771,8 @@ export default function PersonalizationPage() {
               )}
 
               <button
-                onClick={handleSaveDesign}
-                disabled={saving || !uploadedImage}
+                onClick={() => handleSaveDesign()}
+                disabled={saving || !hasAnyLayers}
                 className="w-full mt-8 px-4 py-3 bg-green-600 hover:bg-green-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {saving ? 'Saving...' : 'Finish & Preview'}
@@ -464,97 +784,188 @@ export default function PersonalizationPage() {
               <div 
                 ref={canvasRef}
                 className="bg-gray-700 rounded-xl overflow-hidden relative"
-                style={{ height: '600px' }}
-                onMouseMove={handleMouseMove}
-                onMouseUp={handleMouseUp}
-                onMouseLeave={handleMouseUp}
+                style={{ height: '600px', touchAction: 'none' }}
+                onPointerDown={(e) => {
+                  if (!gestures.handleCanvasPointerDown(e)) {
+                    setSelectedLayerId(null)
+                  }
+                }}
+                onPointerMove={gestures.handlePointerMove}
+                onPointerUp={gestures.handlePointerUp}
+                onPointerCancel={gestures.handlePointerUp}
               >
-                {/* Case panel outline */}
+                {/* Case panel outline, drawn to the panel's real proportions (canvas is 600px, 540px of it for the panel) */}
                 <div className="absolute inset-0 flex items-center justify-center">
                   <div 
-                    className={`border-2 ${activePanel === 'back' ? 'border-blue-500' : 'border-purple-500'} rounded-lg`}
+                    ref={panelRef}
+                    className={`relative border-2 ${isGlassPanel ? 'border-purple-500' : 'border-blue-500'}`}
                     style={{ 
-                      width: activePanel === 'back' ? '80%' : '60%', 
-                      height: activePanel === 'back' ? '90%' : '80%',
-                      backgroundColor: activePanel === 'back' ? '#222' : '#333',
+                      width: `min(90%, ${540 * panelGeometry.width / panelGeometry.height}px)`,
+                      aspectRatio: `${panelGeometry.width} / ${panelGeometry.height}`,
+                      borderRadius: panelOutlineRadius,
+                      backgroundColor: isGlassPanel ? '#333' : '#222',
                     }}
                   >
-                    <div className="absolute top-0 left-0 p-2 bg-gray-800 text-white text-sm rounded-br-lg">
-                      {activePanel === 'back' ? 'Back Panel' : 'Glass Panel'}
+                    {/* Layer stack with laser etching effect, bottom to top, clipped to the outline */}
+                    <div className="absolute inset-0 overflow-hidden" style={{ borderRadius: panelOutlineRadius }}>
+                      {activePanelDesign?.layers.filter(layer => layer.visible).map(layer => (
+                        <div 
+                          key={layer.id}
+                          className={`absolute ${layer.locked ? 'cursor-default' : 'cursor-move'}`}
+                          style={{
+                            left: `${layer.position.x}%`,
+                            top: `${layer.position.y}%`,
+                            width: `${layer.scale.width}%`,
+                            height: `${layer.scale.height}%`,
+                            transform: `translate(-50%, -50%) rotate(${layer.rotation}deg)`,
+                          }}
+                          onPointerDown={(e) => {
+                            e.stopPropagation()
+                            setSelectedLayerId(layer.id)
+                            gestures.begin(e, layer, 'move')
+                          }}
+                        >
+                          {/* Processed layers already show the laser's output, so skip the CSS approximation */}
+                          <LayerView
+                            layer={layer}
+                            panelSize={panelGeometry}
+                            className={
+                              layer.processing && layer.processing.mode !== 'none'
+                                ? ''
+                                : isGlassPanel
+                                  ? 'mix-blend-multiply opacity-80'
+                                  : 'mix-blend-overlay brightness-200 contrast-200'
+                            }
+                          />
+                        </div>
+                      ))}
                     </div>
-                  </div>
-                </div>
 
-                {/* Uploaded image with laser etching effect */}
-                {uploadedImage && (
-                  <div 
-                    ref={imageRef}
-                    className="absolute cursor-move"
-                    style={{
-                      left: `${imagePosition.x}%`,
-                      top: `${imagePosition.y}%`,
-                      width: `${imageScale.width}px`,
-                      height: `${imageScale.height}px`,
-                      transform: `translate(-50%, -50%) rotate(${imageRotation}deg)`,
-                    }}
-                    onMouseDown={handleMouseDown}
-                  >
-                    <img
-                      src={uploadedImage}
-                      alt="Uploaded design"
-                      className={`w-full h-full object-contain ${
-                        activePanel === 'back' 
-                          ? 'mix-blend-overlay brightness-200 contrast-200' 
-                          : 'mix-blend-multiply opacity-80'
-                      }`}
-                      draggable="false"
-                    />
+                    <PanelGuides geometry={panelGeometry} />
+
+                    <div className="absolute top-0 left-0 p-2 bg-gray-800 text-white text-sm rounded-br-lg pointer-events-none">
+                      {panelGeometry.label} · {panelGeometry.width} × {panelGeometry.height} mm
+                    </div>
+
+                    {selectedLayer && selectedLayer.visible && (
+                      <TransformHandles
+                        layer={selectedLayer}
+                        onPointerDown={(e, action) => gestures.begin(e, selectedLayer, action)}
+                      />
+                    )}
                   </div>
-                )}
+                </div>
 
                 {/* Instructions */}
-                {!uploadedImage && (
-                  <div className="absolute inset-0 flex items-center justify-center text-gray-400">
+                {activePanelDesign?.layers.length === 0 && (
+                  <div className="absolute inset-0 flex items-center justify-center text-gray-400 pointer-events-none">
                     <div className="text-center">
-                      <p>Upload an image to begin designing</p>
-                      <p className="text-sm mt-2">Your design will be laser etched onto the {activePanel} panel</p>
+                      <p>Upload an image or add text to begin designing</p>
+                      <p className="text-sm mt-2">Your design will be laser etched onto the {panelGeometry.label.toLowerCase()}</p>
                     </div>
                   </div>
                 )}
 
-                {/* Drag instructions */}
-                {uploadedImage && isDragging && (
+                {/* Gesture status */}
+                {gestures.activeGesture && (
                   <div className="absolute bottom-4 right-4 bg-black bg-opacity-70 text-white text-sm px-3 py-1 rounded">
-                    Dragging image...
+                    {{
+                      move: 'Moving layer...',
+                      scale: 'Resizing layer...',
+                      rotate: 'Rotating layer...',
+                      pinch: 'Pinching layer...'
+                    }[gestures.activeGesture]}
                   </div>
                 )}
               </div>
 
+              {/* Geometry warnings */}
+              {(layerConflicts.length > 0 || activeLowResolution.length > 0) && (
+                <div className="mt-4 bg-yellow-900 bg-opacity-40 border border-yellow-600 rounded-lg p-4">
+                  <h3 className="text-yellow-300 text-sm font-medium mb-2">Some artwork won&apos;t etch as shown</h3>
+                  <ul className="text-yellow-200 text-xs space-y-1">
+                    {layerConflicts.map(({ layer, zones, outsideSafeArea }) => (
+                      <li key={layer.id}>
+                        {layer.name}
+                        {zones.length > 0 && ` overlaps ${zones.map(zone => zone.label).join(', ')}`}
+                        {zones.length > 0 && outsideSafeArea && ' and'}
+                        {outsideSafeArea && ` runs past the ${panelGeometry.safeMargin} mm safe margin`}
+                      </li>
+                    ))}
+                    {activeLowResolution.map(({ layer, dpi }) => (
+                      <li key={`dpi-${layer.id}`}>
+                        {layer.name} is only {Math.round(dpi)} DPI at this size and will etch blurry; {caseData.minPrintDpi} DPI is needed to order
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Preview of how it will look */}
-              {uploadedImage && (
+              {activePanelDesign && activePanelDesign.layers.length > 0 && (
                 <div className="mt-4 bg-gray-800 rounded-lg p-4">
                   <h3 className="text-white text-sm font-medium mb-2">Preview: How it will look when laser etched</h3>
                   <p className="text-gray-400 text-xs mb-2">
-                    {activePanel === 'back' 
-                      ? 'The image will be etched into the metal panel, creating a permanent design.' 
-                      : 'The image will be etched onto the glass panel with a frosted appearance.'}
+                    {isGlassPanel
+                      ? 'Your design will be etched onto the glass panel with a frosted appearance.'
+                      : 'Your design will be etched into the metal panel, creating a permanent finish.'}
                   </p>
                 </div>
               )}
             </div>
+
+            {/* Live 3D preview; nothing is written to Firestore until the design is saved */}
+            {livePreview && (
+              <div className="lg:col-span-2">
+                <ErrorBoundary FallbackComponent={ErrorFallback}>
+                  <div className="h-[600px] bg-gray-800 rounded-xl overflow-hidden relative">
+                    <Scene
+                      modelPath={caseData.model3D}
+                      modelVersion={caseData.modelVersion}
+                      designData={designData || undefined}
+                      productPanels={caseData.panels}
+                      meshMapping={caseData.meshMapping}
+                      clearance={caseData.clearance}
+                      focusPanel={activePanel}
+                      live
+                      {...viewerCallbacks}
+                    />
+                    <ViewerLoadStatus progress={modelProgress} error={viewerError} />
+                  </div>
+                </ErrorBoundary>
+                <p className="mt-4 text-gray-400 text-sm">
+                  The model updates as you edit. Changes stay on this device until you save.
+                </p>
+              </div>
+            )}
           </div>
         ) : (
           <ErrorBoundary FallbackComponent={ErrorFallback}>
             <div className="h-[700px] bg-gray-800 rounded-xl overflow-hidden relative">
               <Scene 
                 modelPath={caseData.model3D} 
+                modelVersion={caseData.modelVersion}
                 designData={designData || undefined} 
+                productPanels={caseData.panels}
+                meshMapping={caseData.meshMapping}
+                clearance={caseData.clearance}
+                onBack={() => setMode('design')}
+                controllerRef={viewerRef}
+                {...viewerCallbacks}
               />
+              <ViewerLoadStatus progress={modelProgress} error={viewerError} />
               
-              <div className="absolute bottom-6 right-6">
+              <div className="absolute bottom-6 right-6 flex flex-col items-end">
+                {lowResolutionLayers.length > 0 && (
+                  <div className="mb-3 max-w-sm bg-red-900 bg-opacity-80 border border-red-600 rounded-lg p-3 text-red-200 text-sm">
+                    {lowResolutionLayers.map(q => q.layer.name).join(', ')} {lowResolutionLayers.length === 1 ? 'is' : 'are'} below
+                    the {caseData.minPrintDpi} DPI needed for a clean etch. Go back to the designer to resize or replace {lowResolutionLayers.length === 1 ? 'it' : 'them'}.
+                  </div>
+                )}
                 <button
-                  onClick={() => router.push('/checkout')}
-                  className="px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium shadow-lg"
+                  onClick={handleCheckout}
+                  disabled={lowResolutionLayers.length > 0 || ordering || !designData?.id}
+                  className="px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Proceed to Checkout
                 </button>
@@ -564,9 +975,13 @@ export default function PersonalizationPage() {
               <h2 className="text-2xl font-bold text-white mb-3">Your Custom Design</h2>
               <p className="text-gray-400 mb-6">This is how your design will look when laser etched onto your case</p>
             </div>
+            <ViewerExportPanel
+              controllerRef={viewerRef}
+              fileName={(designData?.name || caseData.name).trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'design'}
+            />
           </ErrorBoundary>
         )}
       </div>
     </div>
   )
-} 
\ No newline at end of file
+}
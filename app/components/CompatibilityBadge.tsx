@@ -0,0 +1,44 @@
+'use client'
+
+import { ClearanceCheck, Compatibility, getCompatibility } from '@/app/lib/clearance'
+
+interface CompatibilityBadgeProps {
+  checks: ClearanceCheck[]
+}
+
+const STYLES: Record<Compatibility, { label: string, className: string }> = {
+  compatible: { label: 'Fits your build', className: 'bg-green-50 text-green-800 border-green-300' },
+  incompatible: { label: "Doesn't fit your build", className: 'bg-red-50 text-red-800 border-red-300' },
+  unknown: { label: 'Check your build', className: 'bg-yellow-50 text-yellow-800 border-yellow-300' }
+}
+
+const describeCheck = (check: ClearanceCheck) => {
+  if (check.limitMm === null) return `${check.label}: ${check.sizeMm}mm, no limit listed`
+  return `${check.label}: ${check.sizeMm}mm of ${check.limitMm}mm`
+}
+
+// How the customer's saved parts fit a case, as checked in the 3D viewer
+export default function CompatibilityBadge({ checks }: CompatibilityBadgeProps) {
+  const compatibility = getCompatibility(checks)
+  if (!compatibility) {
+    return (
+      <p className="text-sm text-gray-500">
+        Enter your GPU, cooler and radiator in the 3D viewer&apos;s clearance check to see if they fit.
+      </p>
+    )
+  }
+
+  const { label, className } = STYLES[compatibility]
+  return (
+    <div className={`border rounded-lg px-4 py-3 ${className}`}>
+      <p className="font-medium">{label}</p>
+      <ul className="mt-1 text-sm space-y-0.5">
+        {checks.map(check => (
+          <li key={check.part} className={check.status === 'too-large' ? 'font-medium' : ''}>
+            {describeCheck(check)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
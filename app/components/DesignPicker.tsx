@@ -0,0 +1,130 @@
+'use client'
+
+import { useState } from 'react'
+import Image from 'next/image'
+import { DesignData } from '@/app/lib/design'
+
+type SavedDesign = DesignData & { id: string }
+
+interface DesignPickerProps {
+  designs: SavedDesign[]
+  // Designs with unsynced changes kept on this device
+  draftIds: string[]
+  // ID of the design an action is running on, to disable its buttons
+  busyId: string | null
+  onOpen: (design: SavedDesign) => void
+  onCreate: () => void
+  onDuplicate: (design: SavedDesign) => void
+  onRename: (design: SavedDesign, name: string) => void
+  onDelete: (design: SavedDesign) => void
+}
+
+const formatEdited = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short'
+})
+
+export default function DesignPicker({ designs, draftIds, busyId, onOpen, onCreate, onDuplicate, onRename, onDelete }: DesignPickerProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+
+  const startRename = (design: SavedDesign) => {
+    setRenamingId(design.id)
+    setDraftName(design.name)
+  }
+
+  const commitRename = (design: SavedDesign) => {
+    const name = draftName.trim()
+    setRenamingId(null)
+    if (name && name !== design.name) {
+      onRename(design, name)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+      <button
+        onClick={onCreate}
+        className="min-h-[280px] border-2 border-dashed border-gray-600 hover:border-blue-500 rounded-xl flex flex-col items-center justify-center text-gray-400 hover:text-white transition-colors"
+      >
+        <span className="text-4xl mb-2">+</span>
+        <span>New Design</span>
+      </button>
+
+      {designs.map(design => (
+        <div key={design.id} className="bg-gray-800 rounded-xl overflow-hidden flex flex-col">
+          <button
+            onClick={() => onOpen(design)}
+            className="aspect-square bg-gray-700 flex items-center justify-center"
+            title="Open design"
+          >
+            {design.thumbnailUrl ? (
+              <Image
+                src={design.thumbnailUrl}
+                alt={design.name}
+                width={320}
+                height={320}
+                className="w-full h-full object-contain"
+              />
+            ) : (
+              <span className="text-gray-500 text-sm">No preview yet</span>
+            )}
+          </button>
+
+          <div className="p-4 flex-1 flex flex-col">
+            {renamingId === design.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={() => commitRename(design)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename(design)
+                  if (e.key === 'Escape') setRenamingId(null)
+                }}
+                className="w-full px-2 py-1 bg-gray-700 text-white rounded"
+              />
+            ) : (
+              <h3 className="text-white font-medium truncate" title={design.name}>{design.name}</h3>
+            )}
+            <p className="text-gray-400 text-xs mt-1">Edited {formatEdited(design.updatedAt)}</p>
+            {draftIds.includes(design.id) && (
+              <p className="text-yellow-400 text-xs mt-1">● Unsynced changes on this device</p>
+            )}
+
+            <div className="mt-4 grid grid-cols-2 gap-2 text-sm">
+              <button
+                onClick={() => onOpen(design)}
+                disabled={busyId === design.id}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+              >
+                Open
+              </button>
+              <button
+                onClick={() => startRename(design)}
+                disabled={busyId === design.id}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded disabled:opacity-50"
+              >
+                Rename
+              </button>
+              <button
+                onClick={() => onDuplicate(design)}
+                disabled={busyId === design.id}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded disabled:opacity-50"
+              >
+                Duplicate
+              </button>
+              <button
+                onClick={() => onDelete(design)}
+                disabled={busyId === design.id}
+                className="px-3 py-1 bg-gray-700 hover:bg-red-600 text-gray-300 hover:text-white rounded disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
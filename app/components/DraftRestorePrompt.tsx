@@ -0,0 +1,44 @@
+'use client'
+
+import { PendingDraft } from '@/app/hooks/useDraftAutosave'
+
+interface DraftRestorePromptProps {
+  pendingDraft: PendingDraft
+  onRestore: () => void
+  onDiscard: () => void
+}
+
+const formatSaved = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short'
+})
+
+export default function DraftRestorePrompt({ pendingDraft, onRestore, onDiscard }: DraftRestorePromptProps) {
+  const { draft, outdated } = pendingDraft
+
+  return (
+    <div className="mb-8 bg-blue-900 bg-opacity-40 border border-blue-600 rounded-xl p-4 flex flex-col md:flex-row md:items-center gap-4">
+      <div className="flex-1">
+        <h2 className="text-white font-medium">Restore unsaved changes?</h2>
+        <p className="text-blue-200 text-sm mt-1">
+          {draft.designId ? 'This design has' : 'You have a new design with'} changes from {formatSaved(draft.savedAt)} that were never saved.
+          {outdated && ' The design has been saved since then, so restoring will replace that version once you save again.'}
+        </p>
+      </div>
+      <div className="flex space-x-2">
+        <button
+          onClick={onRestore}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
+        >
+          Restore
+        </button>
+        <button
+          onClick={onDiscard}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { DEFAULT_ETCH_PROCESSING, ETCH_MODES, EtchProcessing } from '@/app/lib/etchProcessing'
+
+interface EtchProcessingControlsProps {
+  processing?: EtchProcessing
+  disabled: boolean
+  onChange: (processing: EtchProcessing) => void
+}
+
+export default function EtchProcessingControls({ processing, disabled, onChange }: EtchProcessingControlsProps) {
+  const current = processing || DEFAULT_ETCH_PROCESSING
+  const update = (patch: Partial<EtchProcessing>) => onChange({ ...current, ...patch })
+  const usesThreshold = ['threshold', 'floyd-steinberg', 'atkinson'].includes(current.mode)
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-gray-300 mb-2">Laser Output</label>
+        <div className="grid grid-cols-2 gap-2">
+          {ETCH_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => update({ mode })}
+              disabled={disabled}
+              className={`px-3 py-1 rounded text-sm disabled:opacity-50 ${
+                current.mode === mode ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {usesThreshold && (
+        <div>
+          <label className="block text-gray-300 mb-2">Threshold</label>
+          <div className="flex items-center">
+            <input
+              type="range"
+              min="1"
+              max="254"
+              value={current.threshold}
+              disabled={disabled}
+              onChange={(e) => update({ threshold: parseInt(e.target.value) })}
+              className="w-full mr-3"
+            />
+            <span className="text-gray-300 w-12 text-right">{current.threshold}</span>
+          </div>
+        </div>
+      )}
+
+      {current.mode === 'halftone' && (
+        <div>
+          <label className="block text-gray-300 mb-2">Screen (LPI)</label>
+          <div className="flex items-center">
+            <input
+              type="range"
+              min="10"
+              max="150"
+              value={current.lpi}
+              disabled={disabled}
+              onChange={(e) => update({ lpi: parseInt(e.target.value) })}
+              className="w-full mr-3"
+            />
+            <span className="text-gray-300 w-12 text-right">{current.lpi}</span>
+          </div>
+        </div>
+      )}
+
+      {current.mode !== 'none' && (
+        <label className="flex items-center text-gray-300 text-sm">
+          <input
+            type="checkbox"
+            checked={current.invert}
+            disabled={disabled}
+            onChange={(e) => update({ invert: e.target.checked })}
+            className="mr-2"
+          />
+          Etch light areas instead of dark
+        </label>
+      )}
+    </div>
+  )
+}
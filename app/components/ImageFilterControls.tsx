@@ -0,0 +1,149 @@
+'use client'
+
+import { BACKGROUND_KEYS, DEFAULT_IMAGE_FILTERS, ImageFilters, LINE_ART_STYLES } from '@/app/lib/imageFilters'
+
+interface ImageFilterControlsProps {
+  filters?: ImageFilters
+  disabled: boolean
+  onChange: (filters: ImageFilters) => void
+}
+
+interface SliderProps {
+  label: string
+  min: number
+  max: number
+  value: number
+  disabled: boolean
+  onChange: (value: number) => void
+}
+
+function Slider({ label, min, max, value, disabled, onChange }: SliderProps) {
+  return (
+    <div>
+      <label className="block text-gray-300 mb-2">{label}</label>
+      <div className="flex items-center">
+        <input
+          type="range"
+          min={min}
+          max={max}
+          value={value}
+          disabled={disabled}
+          onChange={(e) => onChange(parseInt(e.target.value))}
+          className="w-full mr-3"
+        />
+        <span className="text-gray-300 w-12 text-right">{value}</span>
+      </div>
+    </div>
+  )
+}
+
+export default function ImageFilterControls({ filters, disabled, onChange }: ImageFilterControlsProps) {
+  const current = filters || DEFAULT_IMAGE_FILTERS
+  const update = (patch: Partial<ImageFilters>) => onChange({ ...current, ...patch })
+  const detectsEdges = current.style === 'sobel' || current.style === 'canny'
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-gray-300 mb-2">Photo Style</label>
+        <div className="grid grid-cols-2 gap-2">
+          {LINE_ART_STYLES.map(({ style, label, smoothing }) => (
+            <button
+              key={style}
+              // Each style starts from the smoothing it looks best at
+              onClick={() => update({ style, smoothing })}
+              disabled={disabled}
+              className={`px-3 py-1 rounded text-sm disabled:opacity-50 ${
+                current.style === style ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {current.style !== 'none' && (
+        <Slider
+          label={current.style === 'sketch' ? 'Pencil Width' : 'Smoothing'}
+          min={current.style === 'sketch' ? 1 : 0}
+          max={current.style === 'sketch' ? 30 : 10}
+          value={current.smoothing}
+          disabled={disabled}
+          onChange={(smoothing) => update({ smoothing })}
+        />
+      )}
+
+      {detectsEdges && (
+        <Slider
+          label="Edge Threshold"
+          min={5}
+          max={200}
+          value={current.edgeThreshold}
+          disabled={disabled}
+          onChange={(edgeThreshold) => update({ edgeThreshold })}
+        />
+      )}
+
+      {current.style === 'posterize' && (
+        <Slider
+          label="Levels"
+          min={2}
+          max={8}
+          value={current.levels}
+          disabled={disabled}
+          onChange={(levels) => update({ levels })}
+        />
+      )}
+
+      <div>
+        <label className="block text-gray-300 mb-2">Remove Background</label>
+        <div className="grid grid-cols-3 gap-2">
+          {BACKGROUND_KEYS.map(({ background, label }) => (
+            <button
+              key={background}
+              onClick={() => update({ background })}
+              disabled={disabled}
+              className={`px-3 py-1 rounded text-sm disabled:opacity-50 ${
+                current.background === background ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {current.background !== 'none' && (
+        <>
+          <div className="flex items-center justify-between">
+            <label className="text-gray-300">{current.background === 'color' ? 'Background Colour' : 'Background Brightness'}</label>
+            <input
+              type="color"
+              value={current.keyColor}
+              disabled={disabled}
+              onChange={(e) => update({ keyColor: e.target.value })}
+              className="w-12 h-8 bg-transparent rounded cursor-pointer disabled:opacity-50"
+            />
+          </div>
+          <Slider
+            label="Tolerance"
+            min={0}
+            max={200}
+            value={current.tolerance}
+            disabled={disabled}
+            onChange={(tolerance) => update({ tolerance })}
+          />
+          <Slider
+            label="Edge Softness"
+            min={0}
+            max={100}
+            value={current.softness}
+            disabled={disabled}
+            onChange={(softness) => update({ softness })}
+          />
+        </>
+      )}
+    </div>
+  )
+}
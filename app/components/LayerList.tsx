@@ -0,0 +1,97 @@
+'use client'
+
+import PrintQualityBadge from '@/app/components/PrintQualityBadge'
+import { DesignLayer } from '@/app/lib/design'
+import { LayerPrintQuality } from '@/app/lib/printQuality'
+
+interface LayerListProps {
+  layers: DesignLayer[]
+  selectedLayerId: string | null
+  // Print quality of image layers, keyed by layer ID
+  printQuality?: Record<string, LayerPrintQuality>
+  onSelect: (layerId: string) => void
+  onMove: (layerId: string, direction: 'up' | 'down') => void
+  onToggleVisible: (layerId: string) => void
+  onToggleLocked: (layerId: string) => void
+  onDelete: (layerId: string) => void
+}
+
+export default function LayerList({
+  layers,
+  selectedLayerId,
+  printQuality = {},
+  onSelect,
+  onMove,
+  onToggleVisible,
+  onToggleLocked,
+  onDelete
+}: LayerListProps) {
+  if (layers.length === 0) {
+    return <p className="text-gray-400 text-sm">No layers on this panel yet.</p>
+  }
+
+  // Show the top of the stack first, like most editors do
+  const ordered = layers.map((layer, index) => ({ layer, index })).reverse()
+
+  return (
+    <ul className="space-y-2">
+      {ordered.map(({ layer, index }) => (
+        <li
+          key={layer.id}
+          onClick={() => onSelect(layer.id)}
+          className={`p-2 rounded-lg flex items-center cursor-pointer ${
+            layer.id === selectedLayerId ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'
+          }`}
+        >
+          <span className={`flex-1 truncate text-sm ${layer.visible ? '' : 'opacity-50'}`}>
+            {layer.name}
+          </span>
+          {printQuality[layer.id] && (
+            <span className="mr-2">
+              <PrintQualityBadge quality={printQuality[layer.id].quality} dpi={printQuality[layer.id].dpi} compact />
+            </span>
+          )}
+          <div className="flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
+            <button
+              onClick={() => onMove(layer.id, 'up')}
+              disabled={index === layers.length - 1}
+              className="px-2 py-1 bg-gray-800 rounded text-xs disabled:opacity-30"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => onMove(layer.id, 'down')}
+              disabled={index === 0}
+              className="px-2 py-1 bg-gray-800 rounded text-xs disabled:opacity-30"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onToggleVisible(layer.id)}
+              className="px-2 py-1 bg-gray-800 rounded text-xs"
+              title={layer.visible ? 'Hide layer' : 'Show layer'}
+            >
+              {layer.visible ? 'Hide' : 'Show'}
+            </button>
+            <button
+              onClick={() => onToggleLocked(layer.id)}
+              className="px-2 py-1 bg-gray-800 rounded text-xs"
+              title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+            >
+              {layer.locked ? 'Unlock' : 'Lock'}
+            </button>
+            <button
+              onClick={() => onDelete(layer.id)}
+              className="px-2 py-1 bg-red-700 rounded text-xs"
+              title="Delete layer"
+            >
+              ✕
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
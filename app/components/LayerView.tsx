@@ -0,0 +1,42 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { DesignLayer } from '@/app/lib/design'
+import { getRasterSize, rasterizeLayer } from '@/app/lib/layerRaster'
+import { PanelSizeMm } from '@/app/lib/panels'
+
+interface LayerViewProps {
+  layer: DesignLayer
+  panelSize: PanelSizeMm
+  className?: string
+}
+
+// Draws the same raster the 3D texture uses, so the designer preview can't drift
+export default function LayerView({ layer, panelSize, className }: LayerViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    rasterizeLayer(layer, panelSize)
+      .then(raster => {
+        const canvas = canvasRef.current
+        const ctx = canvas?.getContext('2d')
+        if (cancelled || !canvas || !ctx) return
+
+        const { width, height } = getRasterSize(raster)
+        canvas.width = width
+        canvas.height = height
+        ctx.drawImage(raster, 0, 0)
+      })
+      .catch(err => {
+        console.error(`Failed to render layer ${layer.name}:`, err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [layer, panelSize])
+
+  return <canvas ref={canvasRef} className={`w-full h-full object-contain ${className || ''}`} />
+}
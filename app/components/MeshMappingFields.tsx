@@ -0,0 +1,76 @@
+'use client'
+
+import { PanelType } from '@/app/lib/design'
+import { ProductPanel } from '@/app/lib/panels'
+
+export type MeshMappingRow = [meshName: string, panelType: PanelType]
+
+interface MeshMappingFieldsProps {
+  rows: MeshMappingRow[]
+  panels: ProductPanel[]
+  inputClassName: string
+  onChange: (rows: MeshMappingRow[]) => void
+}
+
+// Admin inputs linking the product model's mesh names to the panels they show
+export default function MeshMappingFields({ rows, panels, inputClassName, onChange }: MeshMappingFieldsProps) {
+  const updateRow = (index: number, row: MeshMappingRow) => {
+    onChange(rows.map((current, i) => i === index ? row : current))
+  }
+
+  return (
+    <div className="space-y-3">
+      {rows.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No meshes mapped. Panels will be looked for by mesh name and shape, which only suits simple models.
+        </p>
+      )}
+
+      {rows.map(([meshName, panelType], index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Mesh name</label>
+            <input
+              type="text"
+              className={inputClassName}
+              value={meshName}
+              onChange={(e) => updateRow(index, [e.target.value, panelType])}
+              placeholder="e.g. Object_44001"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Panel</label>
+            <select
+              className={inputClassName}
+              value={panelType}
+              onChange={(e) => updateRow(index, [meshName, e.target.value])}
+            >
+              {/* Keep a mapping to a removed panel visible until it's changed */}
+              {!panels.some(panel => panel.panelType === panelType) && (
+                <option value={panelType}>{panelType} (not offered)</option>
+              )}
+              {panels.map(panel => (
+                <option key={panel.panelType} value={panel.panelType}>{panel.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            className="px-3 py-2 text-red-600 border border-red-600 rounded-lg hover:bg-red-50 text-sm"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...rows, ['', panels[0]?.panelType || '']])}
+        className="px-3 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 text-sm"
+      >
+        Add Mesh
+      </button>
+    </div>
+  )
+}
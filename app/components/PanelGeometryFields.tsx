@@ -0,0 +1,226 @@
+'use client'
+
+import { useState } from 'react'
+import { NoEtchZone, PANEL_PRESETS, PanelSurface, ProductPanel, createProductPanel } from '@/app/lib/panels'
+
+interface PanelGeometryFieldsProps {
+  panels: ProductPanel[]
+  inputClassName: string
+  onChange: (panels: ProductPanel[]) => void
+}
+
+const NEW_ZONES: Record<NoEtchZone['shape'], NoEtchZone> = {
+  rect: { shape: 'rect', label: 'Vent', x: 20, y: 20, width: 60, height: 20 },
+  circle: { shape: 'circle', label: 'Screw hole', x: 15, y: 15, radius: 4 }
+}
+
+// Panel IDs are stored on designs, so keep them to simple slugs
+const toPanelType = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+
+// Admin inputs for which panels a product offers, and each one's material, physical outline, safe margin and no-etch zones (all in mm)
+export default function PanelGeometryFields({ panels, inputClassName, onChange }: PanelGeometryFieldsProps) {
+  const [newPanelType, setNewPanelType] = useState('')
+  const usedTypes = panels.map(panel => panel.panelType)
+  const availablePresets = Object.entries(PANEL_PRESETS).filter(([panelType]) => !usedTypes.includes(panelType))
+  const newType = toPanelType(newPanelType)
+
+  const addPanel = () => {
+    if (!newType || usedTypes.includes(newType)) return
+    onChange([...panels, createProductPanel(newType)])
+    setNewPanelType('')
+  }
+
+  const movePanel = (index: number, offset: -1 | 1) => {
+    const next = [...panels]
+    const [panel] = next.splice(index, 1)
+    next.splice(index + offset, 0, panel)
+    onChange(next)
+  }
+
+  const updatePanel = (index: number, patch: Partial<ProductPanel>) => {
+    onChange(panels.map((panel, i) => i === index ? { ...panel, ...patch } : panel))
+  }
+
+  const updateZone = (panelIndex: number, zoneIndex: number, patch: Partial<NoEtchZone>) => {
+    const zones = panels[panelIndex].noEtchZones
+    updatePanel(panelIndex, {
+      noEtchZones: zones.map((zone, i) => i === zoneIndex ? { ...zone, ...patch } as NoEtchZone : zone)
+    })
+  }
+
+  const numberField = (label: string, value: number, onValue: (value: number) => void) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+      <input
+        type="number"
+        step="0.1"
+        min="0"
+        required
+        className={inputClassName}
+        value={value}
+        onChange={(e) => onValue(parseFloat(e.target.value) || 0)}
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      {panels.map((panel, panelIndex) => (
+        <div key={panel.panelType} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="font-medium text-gray-800">
+              {panel.label} <span className="text-xs text-gray-500 font-normal">({panel.panelType})</span>
+            </h4>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => movePanel(panelIndex, -1)}
+                disabled={panelIndex === 0}
+                className="px-2 py-1 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 text-sm disabled:opacity-30"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => movePanel(panelIndex, 1)}
+                disabled={panelIndex === panels.length - 1}
+                className="px-2 py-1 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 text-sm disabled:opacity-30"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(panels.filter((_, i) => i !== panelIndex))}
+                disabled={panels.length === 1}
+                className="px-3 py-1 text-red-600 border border-red-600 rounded hover:bg-red-50 text-sm disabled:opacity-30"
+              >
+                Remove Panel
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Label</label>
+              <input
+                type="text"
+                required
+                className={inputClassName}
+                value={panel.label}
+                onChange={(e) => updatePanel(panelIndex, { label: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Surface</label>
+              <select
+                className={inputClassName}
+                value={panel.surface}
+                onChange={(e) => updatePanel(panelIndex, { surface: e.target.value as PanelSurface })}
+              >
+                <option value="metal">Metal</option>
+                <option value="glass">Glass</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Material</label>
+              <input
+                type="text"
+                required
+                className={inputClassName}
+                value={panel.material}
+                onChange={(e) => updatePanel(panelIndex, { material: e.target.value })}
+              />
+            </div>
+            {numberField('Width (mm)', panel.width, width => updatePanel(panelIndex, { width }))}
+            {numberField('Height (mm)', panel.height, height => updatePanel(panelIndex, { height }))}
+            {numberField('Corner radius (mm)', panel.cornerRadius, cornerRadius => updatePanel(panelIndex, { cornerRadius }))}
+            {numberField('Safe margin (mm)', panel.safeMargin, safeMargin => updatePanel(panelIndex, { safeMargin }))}
+          </div>
+
+          <div className="mt-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">No-etch zones</p>
+            <p className="text-xs text-gray-500 mb-3">
+              Measured from the panel&apos;s top-left corner. Rects use their top-left; circles use their centre.
+            </p>
+
+            {panel.noEtchZones.map((zone, zoneIndex) => (
+              <div key={zoneIndex} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end mb-3">
+                <div className="col-span-2 md:col-span-1">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Label</label>
+                  <input
+                    type="text"
+                    className={inputClassName}
+                    value={zone.label}
+                    onChange={(e) => updateZone(panelIndex, zoneIndex, { label: e.target.value })}
+                  />
+                </div>
+                {numberField('X (mm)', zone.x, x => updateZone(panelIndex, zoneIndex, { x }))}
+                {numberField('Y (mm)', zone.y, y => updateZone(panelIndex, zoneIndex, { y }))}
+                {zone.shape === 'circle' ? (
+                  numberField('Radius (mm)', zone.radius, radius => updateZone(panelIndex, zoneIndex, { radius }))
+                ) : (
+                  <>
+                    {numberField('Width (mm)', zone.width, width => updateZone(panelIndex, zoneIndex, { width }))}
+                    {numberField('Height (mm)', zone.height, height => updateZone(panelIndex, zoneIndex, { height }))}
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() => updatePanel(panelIndex, { noEtchZones: panel.noEtchZones.filter((_, i) => i !== zoneIndex) })}
+                  className="px-3 py-2 text-red-600 border border-red-600 rounded-lg hover:bg-red-50 text-sm"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              {(['rect', 'circle'] as const).map(shape => (
+                <button
+                  key={shape}
+                  type="button"
+                  onClick={() => updatePanel(panelIndex, { noEtchZones: [...panel.noEtchZones, NEW_ZONES[shape]] })}
+                  className="px-3 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 text-sm"
+                >
+                  Add {shape === 'rect' ? 'Rectangle' : 'Circle'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Add panel</label>
+          <input
+            type="text"
+            list="panel-presets"
+            className={inputClassName}
+            value={newPanelType}
+            onChange={(e) => setNewPanelType(e.target.value)}
+            placeholder="e.g. front, top, psu-shroud"
+          />
+          <datalist id="panel-presets">
+            {availablePresets.map(([panelType, preset]) => (
+              <option key={panelType} value={panelType}>{preset.label}</option>
+            ))}
+          </datalist>
+        </div>
+        <button
+          type="button"
+          onClick={addPanel}
+          disabled={!newType || usedTypes.includes(newType)}
+          className="px-3 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 text-sm disabled:opacity-50"
+        >
+          Add Panel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { PanelGeometry } from '@/app/lib/panels'
+
+interface PanelGuidesProps {
+  geometry: PanelGeometry
+}
+
+// Safe-area and no-etch overlays, positioned in panel percent like the layers beneath them
+export default function PanelGuides({ geometry }: PanelGuidesProps) {
+  const percentX = (mm: number) => `${(mm / geometry.width) * 100}%`
+  const percentY = (mm: number) => `${(mm / geometry.height) * 100}%`
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {geometry.safeMargin > 0 && (
+        <div
+          className="absolute border border-dashed border-gray-500"
+          style={{
+            left: percentX(geometry.safeMargin),
+            right: percentX(geometry.safeMargin),
+            top: percentY(geometry.safeMargin),
+            bottom: percentY(geometry.safeMargin)
+          }}
+        />
+      )}
+
+      {geometry.noEtchZones.map((zone, index) => {
+        const box = zone.shape === 'circle'
+          ? { x: zone.x - zone.radius, y: zone.y - zone.radius, width: zone.radius * 2, height: zone.radius * 2 }
+          : zone
+
+        return (
+          <div
+            key={index}
+            title={zone.label}
+            className={`absolute border border-red-500 bg-red-500/30 ${zone.shape === 'circle' ? 'rounded-full' : ''}`}
+            style={{
+              left: percentX(box.x),
+              top: percentY(box.y),
+              width: percentX(box.width),
+              height: percentY(box.height),
+              backgroundImage: 'repeating-linear-gradient(45deg, transparent 0 4px, rgba(239, 68, 68, 0.5) 4px 6px)'
+            }}
+          />
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { PanelType } from '@/app/lib/design'
+import { ProductPanel } from '@/app/lib/panels'
+import { MeshMapping } from '@/app/lib/productModel'
+
+export interface MappedMeshInfo {
+  name: string
+  // Bounding box size in scene units (the model's longest side is 2)
+  size: { x: number, y: number, z: number }
+  suggestion: PanelType | null
+}
+
+// Lets the 3D viewer report assignments back to the page that owns the mapping
+export interface PanelMapper {
+  onAssign: (meshName: string, panelType: PanelType | null) => void
+}
+
+interface PanelMapperPanelProps {
+  selectedMesh: MappedMeshInfo | null
+  panels: ProductPanel[]
+  meshMapping: MeshMapping
+  onAssign: PanelMapper['onAssign']
+}
+
+const formatSize = ({ x, y, z }: MappedMeshInfo['size']) => [x, y, z].map(value => value.toFixed(2)).join(' × ')
+
+// Overlay for the admin panel mapper, assigning the clicked mesh to one of the product's panels
+export default function PanelMapperPanel({ selectedMesh, panels, meshMapping, onAssign }: PanelMapperPanelProps) {
+  const assigned = selectedMesh ? meshMapping[selectedMesh.name] : undefined
+  const [panelType, setPanelType] = useState<PanelType>('')
+
+  // Start from the current assignment, or the suggestion for an unmapped mesh
+  useEffect(() => {
+    const suggestion = panels.find(panel => panel.panelType === selectedMesh?.suggestion)?.panelType
+    setPanelType(assigned || suggestion || panels[0]?.panelType || '')
+  }, [selectedMesh, assigned, panels])
+
+  const labelFor = (type: PanelType) => panels.find(panel => panel.panelType === type)?.label || type
+
+  return (
+    <div className="absolute top-4 left-4 z-10 w-72 bg-gray-800 bg-opacity-90 p-4 rounded-lg shadow-lg text-white text-sm">
+      <h3 className="font-bold mb-1">Panel Mapper</h3>
+      {!selectedMesh ? (
+        <p className="text-gray-300">Hover to highlight meshes and click one to assign it. Drag to orbit.</p>
+      ) : (
+        <div className="space-y-3">
+          <div>
+            <p className="font-mono break-all">{selectedMesh.name || '(unnamed mesh)'}</p>
+            <p className="text-gray-400 text-xs">Bounds {formatSize(selectedMesh.size)}</p>
+            <p className="text-gray-400 text-xs">
+              {assigned ? `Assigned to ${labelFor(assigned)}` : 'Not assigned'}
+              {selectedMesh.suggestion && ` · looks like ${labelFor(selectedMesh.suggestion)}`}
+            </p>
+          </div>
+
+          {!selectedMesh.name ? (
+            <p className="text-yellow-300 text-xs">Meshes need a name in the model file to be mapped.</p>
+          ) : (
+            <>
+              <select
+                value={panelType}
+                onChange={(e) => setPanelType(e.target.value)}
+                className="w-full px-2 py-1 bg-gray-700 text-white rounded"
+              >
+                {panels.map(panel => (
+                  <option key={panel.panelType} value={panel.panelType}>{panel.label}</option>
+                ))}
+              </select>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => onAssign(selectedMesh.name, panelType)}
+                  disabled={!panelType || panelType === assigned}
+                  className="flex-1 px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50"
+                >
+                  Assign
+                </button>
+                <button
+                  onClick={() => onAssign(selectedMesh.name, null)}
+                  disabled={!assigned}
+                  className="flex-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  Unassign
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
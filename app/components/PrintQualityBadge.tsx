@@ -0,0 +1,29 @@
+'use client'
+
+import { PrintQuality } from '@/app/lib/printQuality'
+
+interface PrintQualityBadgeProps {
+  quality: PrintQuality
+  dpi: number
+  // Just the DPI, for tight spots like the layer list
+  compact?: boolean
+}
+
+const STYLES: Record<PrintQuality, { label: string, className: string }> = {
+  good: { label: 'Good', className: 'bg-green-900 text-green-300 border-green-600' },
+  marginal: { label: 'Marginal', className: 'bg-yellow-900 text-yellow-300 border-yellow-600' },
+  low: { label: 'Too low', className: 'bg-red-900 text-red-300 border-red-600' }
+}
+
+export default function PrintQualityBadge({ quality, dpi, compact = false }: PrintQualityBadgeProps) {
+  const { label, className } = STYLES[quality]
+
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 border rounded text-xs whitespace-nowrap ${className}`}
+      title={`${label} print quality: ${Math.round(dpi)} DPI at this size`}
+    >
+      {compact ? `${Math.round(dpi)} DPI` : `${label} · ${Math.round(dpi)} DPI`}
+    </span>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import { doc, getDoc } from 'firebase/firestore'
+import { auth, db } from '@/app/lib/firebase'
+import { DesignData, hasVisibleLayers } from '@/app/lib/design'
+import { loadDesign } from '@/app/lib/designStore'
+import { ProductionFormat } from '@/app/lib/exportProduction'
+import { rasterizeLayerForProduction } from '@/app/lib/layerRaster'
+import { ProductPanel, getProductPanel, normalizeProductPanels } from '@/app/lib/panels'
+
+interface ProductionExportProps {
+  inputClassName: string
+}
+
+// Admin download of laser job files for a saved design
+export default function ProductionExport({ inputClassName }: ProductionExportProps) {
+  const [designId, setDesignId] = useState('')
+  const [orderId, setOrderId] = useState('')
+  // Panels of the looked-up design that have artwork, labelled by its product
+  const [panels, setPanels] = useState<ProductPanel[] | null>(null)
+  const [design, setDesign] = useState<DesignData | null>(null)
+  const [finding, setFinding] = useState(false)
+  const [downloading, setDownloading] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFind = async () => {
+    setFinding(true)
+    setError(null)
+    setPanels(null)
+
+    try {
+      const found = await loadDesign(designId.trim())
+      if (!found) {
+        throw new Error('Design not found')
+      }
+
+      const productDoc = await getDoc(doc(db, 'products', found.caseId))
+      const productPanels = normalizeProductPanels(productDoc.data()?.panels)
+      setDesign(found)
+      setPanels(found.panels.filter(hasVisibleLayers).map(panel => getProductPanel(productPanels, panel.panelType)))
+    } catch (err) {
+      console.error('Error finding design:', err)
+      setError(err instanceof Error ? err.message : 'Failed to find design')
+    } finally {
+      setFinding(false)
+    }
+  }
+
+  // Image layers go through the designer's own pipeline here, so the laser file matches the approved preview
+  const rasterizePanelImages = async (productPanel: ProductPanel): Promise<Record<string, string>> => {
+    const layers = design?.panels.find(panel => panel.panelType === productPanel.panelType)?.layers || []
+    const images = await Promise.all(layers
+      .filter(layer => layer.type === 'image' && layer.visible)
+      .map(async layer => [layer.id, await rasterizeLayerForProduction(layer, productPanel)] as const))
+    return Object.fromEntries(images)
+  }
+
+  const handleDownload = async (productPanel: ProductPanel, format: ProductionFormat) => {
+    const { panelType } = productPanel
+    const key = `${panelType}-${format}`
+    setDownloading(key)
+    setError(null)
+
+    try {
+      const token = await auth.currentUser?.getIdToken()
+      if (!token) {
+        throw new Error('You need to be signed in')
+      }
+
+      const query = new URLSearchParams({ panel: panelType, format })
+      if (orderId.trim()) {
+        query.set('orderId', orderId.trim())
+      }
+
+      const images = format === 'svg' ? await rasterizePanelImages(productPanel) : {}
+      const response = await fetch(`/api/designs/${encodeURIComponent(designId.trim())}/export?${query}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ images })
+      })
+      if (!response.ok) {
+        throw new Error(await response.text())
+      }
+
+      const fileName = response.headers.get('content-disposition')?.match(/filename="([^"]+)"/)?.[1] || `${key}.${format}`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Error downloading production file:', err)
+      setError(err instanceof Error ? err.message : 'Failed to download file')
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Design ID</label>
+          <input
+            type="text"
+            className={inputClassName}
+            value={designId}
+            onChange={(e) => {
+              setDesignId(e.target.value)
+              setPanels(null)
+              setDesign(null)
+            }}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Order ID</label>
+          <input
+            type="text"
+            className={inputClassName}
+            value={orderId}
+            onChange={(e) => setOrderId(e.target.value)}
+            placeholder="Defaults to the design ID"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-50 text-red-700">{error}</div>
+      )}
+
+      {panels === null ? (
+        <button
+          type="button"
+          onClick={handleFind}
+          disabled={!designId.trim() || finding}
+          className="px-4 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors duration-200"
+        >
+          {finding ? 'Finding...' : 'Find Design'}
+        </button>
+      ) : panels.length === 0 ? (
+        <p className="text-sm text-gray-600">This design has no artwork to produce.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {panels.flatMap(panel => (['svg', 'dxf'] as const).map(format => (
+            <button
+              key={`${panel.panelType}-${format}`}
+              type="button"
+              onClick={() => handleDownload(panel, format)}
+              disabled={downloading !== null}
+              className="px-4 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors duration-200"
+            >
+              {downloading === `${panel.panelType}-${format}` ? 'Preparing...' : `${panel.label} ${format.toUpperCase()}`}
+            </button>
+          )))}
+        </div>
+      )}
+    </div>
+  )
+}
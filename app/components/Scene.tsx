@@ -1,30 +1,38 @@
 'use client'
 
 import dynamic from 'next/dynamic'
-import { Suspense } from 'react'
+import { MutableRefObject, Suspense } from 'react'
+import { PanelDesign, PanelType } from '@/app/lib/design'
+import { ProductPanel } from '@/app/lib/panels'
+import { CaseClearance } from '@/app/lib/clearance'
+import { MeshMapping } from '@/app/lib/productModel'
+import { ViewerCallbacks, ViewerController } from '@/app/lib/viewer'
+import { PanelMapper } from './PanelMapperPanel'
 
 const SceneImpl = dynamic(() => import('./SceneImpl'), {
   ssr: false,
   loading: () => null
 })
 
-interface SceneProps {
+interface SceneProps extends ViewerCallbacks {
   modelPath: string
+  modelVersion?: string
   designData?: {
-    panels: Array<{
-      panelType: 'back' | 'glass'
-      imageUrl?: string
-      position: { x: number, y: number }
-      scale: { width: number, height: number }
-      rotation: number
-    }>
+    panels: PanelDesign[]
   }
+  productPanels?: ProductPanel[]
+  meshMapping?: MeshMapping
+  mapper?: PanelMapper
+  live?: boolean
+  controllerRef?: MutableRefObject<ViewerController | null>
+  focusPanel?: PanelType
+  clearance?: CaseClearance
 }
 
-export default function Scene({ modelPath, designData }: SceneProps) {
+export default function Scene(props: SceneProps) {
   return (
     <Suspense fallback={null}>
-      <SceneImpl modelPath={modelPath} designData={designData} />
+      <SceneImpl {...props} />
     </Suspense>
   )
 } 
\ No newline at end of file
@@ -1,26 +1,61 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { MutableRefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import * as THREE from 'three'
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js'
-import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js'
+import { CSS2DObject, CSS2DRenderer } from 'three/addons/renderers/CSS2DRenderer.js'
+import { PanelDesign, PanelType, hasVisibleLayers } from '@/app/lib/design'
+import { composePanel } from '@/app/lib/composePanel'
+import { ProductPanel, getPanelGeometry, getProductPanel } from '@/app/lib/panels'
+import { MeshMapping, getPanelMeshNames } from '@/app/lib/productModel'
+import { getPanelFrame, projectPanelUVs } from '@/app/lib/panelProjection'
+import { createEtchedMaterial, disposeEtchedMaterial } from '@/app/lib/etchMaterials'
+import { ExplodedPanel, getExplodedCenter, getExplodedPanels, setExplodeProgress } from '@/app/lib/explodedView'
+import { loadModel } from '@/app/lib/modelLoader'
+import { CameraPreset, CameraView, ViewerCallbacks, ViewerController } from '@/app/lib/viewer'
+import { SnapshotOptions, TurntableOptions, createBrandedBackground, recordCanvas } from '@/app/lib/viewerCapture'
+import {
+  DEFAULT_INTERIOR_GLOW,
+  EnvironmentPreset,
+  InteriorGlow,
+  applyEnvironment,
+  createGlowLights,
+  updateInteriorGlow
+} from '@/app/lib/viewerEnvironment'
+import { CaseClearance, checkClearance } from '@/app/lib/clearance'
+import { createClearanceBlocks, disposeClearanceBlocks } from '@/app/lib/clearanceBlocks'
+import { useHardwareBuild } from '@/app/hooks/useHardwareBuild'
+import PanelMapperPanel, { MappedMeshInfo, PanelMapper } from './PanelMapperPanel'
+import ViewerCameraControls from './ViewerCameraControls'
+import ViewerClearanceControls from './ViewerClearanceControls'
+import ViewerLightingControls from './ViewerLightingControls'
 
-interface SceneProps {
+interface SceneProps extends ViewerCallbacks {
   modelPath: string
+  // Changes when the file at `modelPath` is replaced, so a cached copy isn't reused
+  modelVersion?: string
   designData?: {
-    panels: Array<{
-      panelType: 'back' | 'glass'
-      imageUrl?: string
-      position: { x: number, y: number }
-      scale: { width: number, height: number }
-      rotation: number
-    }>
+    panels: PanelDesign[]
   }
+  // Physical panel shapes of the product; defaults are used when missing
+  productPanels?: ProductPanel[]
+  // Which model meshes show which panel; unmapped panels are looked for by name and shape
+  meshMapping?: MeshMapping
+  // Admin mode for building `meshMapping` by clicking meshes
+  mapper?: PanelMapper
+  // Shown beside the editor, following the design as it's edited rather than as a separate view
+  live?: boolean
+  // Filled in with this viewer's controller while its scene is loaded
+  controllerRef?: MutableRefObject<ViewerController | null>
+  // The panel being edited; the camera turns to face it whenever it changes
+  focusPanel?: PanelType
+  // The case's hardware limits; the viewer offers a fit check when given
+  clearance?: CaseClearance
 }
 
 type PanelMesh = THREE.Mesh & {
   isPanel?: boolean
-  panelType?: 'back' | 'glass' | 'other'  // Updated panel types
+  panelType?: PanelType | 'other'
   originalMaterial?: THREE.Material
   outlineEdges?: THREE.LineSegments
 }
@@ -36,6 +71,133 @@ interface GLTF {
   }
 }
 
+// Panel textures are rebuilt at most this often while the design changes, e.g. during a drag
+const TEXTURE_UPDATE_MS = 200
+
+// Pointer travel that still counts as a click rather than an orbit drag
+const CLICK_TOLERANCE_PX = 4
+
+// Where the camera looks from for each preset, relative to the model's centre; the front of the case faces +z
+const CAMERA_DIRECTIONS: Record<CameraPreset, [number, number, number]> = {
+  front: [0, 0.2, 1],
+  back: [0, 0.2, -1],
+  left: [-1, 0.2, 0],
+  right: [1, 0.2, 0],
+  // Not quite straight down, which would leave the orbit controls without an up direction
+  top: [0, 1, 0.01],
+  'three-quarter': [2, 1.5, 2]
+}
+// Presets all frame the whole model from the distance the viewer opens at
+const HOME_DISTANCE = Math.hypot(...CAMERA_DIRECTIONS['three-quarter'])
+const CAMERA_TWEEN_MS = 800
+// Room left around a focused panel
+const FOCUS_MARGIN = 1.25
+
+interface CameraPlacement {
+  position: THREE.Vector3
+  target: THREE.Vector3
+}
+
+interface CameraTween {
+  from: CameraPlacement
+  to: CameraPlacement
+  startedAt: number
+}
+
+// How far panels move out of the case in the exploded view; the model is 2 units across
+const EXPLODE_DISTANCE = 0.5
+// A full explosion or reassembly; reversing part way takes part of the time
+const EXPLODE_MS = 700
+
+interface ExplodeAnimation {
+  panels: ExplodedPanel[]
+  // One per panel, in the same order
+  labels: CSS2DObject[]
+  progress: number
+  from: number
+  target: number
+  startedAt: number
+}
+
+const createExplodeAnimation = (): ExplodeAnimation => ({ panels: [], labels: [], progress: 0, from: 0, target: 0, startedAt: 0 })
+
+// Moves the panels and their labels along the explosion, from wherever they are now
+function stepExplodeAnimation(explode: ExplodeAnimation, now: number) {
+  if (explode.progress === explode.target) return
+  const duration = Math.abs(explode.target - explode.from) * EXPLODE_MS
+  const t = duration > 0 ? Math.min(1, (now - explode.startedAt) / duration) : 1
+  explode.progress = t === 1 ? explode.target : THREE.MathUtils.lerp(explode.from, explode.target, easeInOutCubic(t))
+
+  setExplodeProgress(explode.panels, explode.progress)
+  explode.labels.forEach((label, index) => {
+    label.position.copy(getExplodedCenter(explode.panels[index], explode.progress))
+    label.visible = explode.progress > 0
+    label.element.style.opacity = String(explode.progress)
+  })
+}
+
+// A panel's name floating beside it in the exploded view
+function createPanelLabel(text: string, onClick: () => void): CSS2DObject {
+  const element = document.createElement('button')
+  element.textContent = text
+  element.className = 'px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium shadow-lg whitespace-nowrap'
+  // The label layer lets the pointer through to the orbit controls, except on the labels themselves
+  element.style.pointerEvents = 'auto'
+  element.addEventListener('click', onClick)
+  const label = new CSS2DObject(element)
+  label.visible = false
+  return label
+}
+
+const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+
+function presetPlacement(preset: CameraPreset, center: THREE.Vector3): CameraPlacement {
+  const direction = new THREE.Vector3(...CAMERA_DIRECTIONS[preset]).normalize()
+  return { position: center.clone().addScaledVector(direction, HOME_DISTANCE), target: center.clone() }
+}
+
+// Square on to a panel's outer face, close enough for it to fill most of the view
+function panelPlacement(meshes: THREE.Mesh[], modelCenter: THREE.Vector3, camera: THREE.PerspectiveCamera, minDistance: number): CameraPlacement {
+  const box = new THREE.Box3()
+  meshes.forEach(mesh => box.expandByObject(mesh))
+  const center = box.getCenter(new THREE.Vector3())
+  const size = box.getSize(new THREE.Vector3())
+  const { normal, up } = getPanelFrame(box, modelCenter)
+
+  const halfFov = THREE.MathUtils.degToRad(camera.fov) / 2
+  const distance = Math.max(minDistance, (Math.max(size.x, size.y, size.z) / 2 / Math.tan(halfFov)) * FOCUS_MARGIN)
+  const position = center.clone().addScaledVector(normal, distance)
+  // Lying panels are seen from just in front, so the orbit controls keep an up direction
+  if (Math.abs(normal.y) === 1) {
+    position.addScaledVector(up, -0.01 * distance)
+  }
+  return { position, target: center }
+}
+
+// Moves the camera along a tween, orbiting the target rather than cutting through the model.
+// Returns true once it has arrived.
+function stepCameraTween(tween: CameraTween, now: number, camera: THREE.Camera, controls: OrbitControls): boolean {
+  const progress = Math.min(1, (now - tween.startedAt) / CAMERA_TWEEN_MS)
+  const eased = easeInOutCubic(progress)
+
+  const target = tween.from.target.clone().lerp(tween.to.target, eased)
+  const start = new THREE.Spherical().setFromVector3(tween.from.position.clone().sub(tween.from.target))
+  const end = new THREE.Spherical().setFromVector3(tween.to.position.clone().sub(tween.to.target))
+  // Take the short way round
+  let turn = end.theta - start.theta
+  if (turn > Math.PI) turn -= Math.PI * 2
+  if (turn < -Math.PI) turn += Math.PI * 2
+  const offset = new THREE.Vector3().setFromSpherical(new THREE.Spherical(
+    THREE.MathUtils.lerp(start.radius, end.radius, eased),
+    THREE.MathUtils.lerp(start.phi, end.phi, eased),
+    start.theta + turn * eased
+  ))
+
+  camera.position.copy(target).add(offset)
+  controls.target.copy(target)
+  return progress >= 1
+}
+
 // Update the constants at the top of the file
 const HOVER_COLOR = 0x00ffff;    // Bright cyan - more visible
 const SELECTED_COLOR = 0xff0000;  // Bright red
@@ -58,7 +220,103 @@ const isTopPanel = (position: THREE.Vector3, size: THREE.Vector3): boolean => {
   return size.x > 0.1 && size.z > 0.1 && size.y < 0.1;
 }
 
-export default function SceneImpl({ modelPath, designData }: SceneProps) {
+// For models without panel names: the panel's shape, and which way it faces (higher scores win)
+const PANEL_PLACEMENTS: Record<string, { fits: typeof isSidePanel, score: (position: THREE.Vector3) => number }> = {
+  front: { fits: isFrontPanel, score: position => position.z },
+  top: { fits: isTopPanel, score: position => position.y },
+  'left-side': { fits: isSidePanel, score: position => -position.x },
+  'right-side': { fits: isSidePanel, score: position => position.x }
+}
+
+// A mesh named after every word of the panel type, e.g. "PSU_Shroud_01" for 'psu-shroud'
+const isNamedForPanel = (meshName: string, panelType: PanelType) => {
+  const name = meshName.toLowerCase()
+  return panelType.toLowerCase().split('-').every(word => name.includes(word))
+}
+
+/**
+ * Picks the meshes for each panel type: the product's mapping first, then a
+ * matching mesh name, then shape and position for the common panels. Expects
+ * the model already scaled to the scene, since the shape checks use scene units.
+ */
+function findPanelMeshes(root: THREE.Object3D, panelTypes: PanelType[], meshMapping: MeshMapping): Record<PanelType, THREE.Mesh[]> {
+  const meshes: THREE.Mesh[] = []
+  root.traverse(child => {
+    if (child instanceof THREE.Mesh) meshes.push(child)
+  })
+
+  const found: Record<PanelType, THREE.Mesh[]> = {}
+  const taken = new Set<THREE.Mesh>()
+  const claim = (panelType: PanelType, panelMeshes: THREE.Mesh[]) => {
+    if (panelMeshes.length === 0) return
+    found[panelType] = panelMeshes
+    panelMeshes.forEach(mesh => {
+      taken.add(mesh)
+      mesh.userData.isPanel = true
+      mesh.userData.panelType = panelType
+    })
+  }
+
+  panelTypes.forEach(panelType => {
+    const mapped = getPanelMeshNames(meshMapping, panelType)
+    claim(panelType, meshes.filter(mesh => mapped.includes(mesh.name)))
+  })
+
+  panelTypes.filter(panelType => !found[panelType]).forEach(panelType => {
+    const named = meshes.find(mesh => !taken.has(mesh) && isNamedForPanel(mesh.name, panelType))
+    claim(panelType, named ? [named] : [])
+  })
+
+  panelTypes.filter(panelType => !found[panelType] && PANEL_PLACEMENTS[panelType]).forEach(panelType => {
+    const { fits, score } = PANEL_PLACEMENTS[panelType]
+    const candidates = meshes.flatMap(mesh => {
+      if (taken.has(mesh)) return []
+      const box = new THREE.Box3().setFromObject(mesh)
+      const position = box.getCenter(new THREE.Vector3())
+      return fits(position, box.getSize(new THREE.Vector3())) ? [{ mesh, score: score(position) }] : []
+    })
+    const best = candidates.sort((a, b) => b.score - a.score)[0]
+    claim(panelType, best ? [best.mesh] : [])
+  })
+
+  return found
+}
+
+// The frontmost mesh under the pointer
+function pickMesh(event: PointerEvent, canvas: HTMLCanvasElement, camera: THREE.Camera, scene: THREE.Scene): THREE.Mesh | null {
+  const rect = canvas.getBoundingClientRect()
+  const pointer = new THREE.Vector2(((event.clientX - rect.left) / rect.width) * 2 - 1, -((event.clientY - rect.top) / rect.height) * 2 + 1)
+  const raycaster = new THREE.Raycaster()
+  raycaster.setFromCamera(pointer, camera)
+  const hit = raycaster.intersectObjects(scene.children, true).find(intersection => intersection.object instanceof THREE.Mesh)
+  return hit ? hit.object as THREE.Mesh : null
+}
+
+// Side panels tend to be named after what they're made of rather than which side they're on
+const SIDE_PANEL_TYPES = ['left-side', 'right-side', 'glass', 'back']
+
+/** Best guess at which of the product's panels a mesh shows, from its shape, position and material. */
+function suggestPanelType(mesh: THREE.Mesh, productPanels: ProductPanel[]): PanelType | null {
+  const box = new THREE.Box3().setFromObject(mesh)
+  const position = box.getCenter(new THREE.Vector3())
+  const size = box.getSize(new THREE.Vector3())
+  const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+  const looksLikeGlass = materials.some(material => material.transparent || material.opacity < 1)
+
+  const guesses = Object.entries(PANEL_PLACEMENTS)
+    .filter(([, placement]) => placement.fits(position, size))
+    .sort(([, a], [, b]) => b.score(position) - a.score(position))
+    .map(([panelType]) => panelType)
+  if (guesses.some(panelType => panelType.endsWith('-side'))) {
+    guesses.push(...SIDE_PANEL_TYPES.filter(panelType => !guesses.includes(panelType)))
+  }
+
+  const offered = productPanels.filter(panel => guesses.includes(panel.panelType))
+  const bySurface = offered.find(panel => (panel.surface === 'glass') === looksLikeGlass)
+  return bySurface?.panelType || offered[0]?.panelType || guesses[0] || null
+}
+
+export default function SceneImpl({ modelPath, modelVersion, designData, productPanels, meshMapping, mapper, live, controllerRef, focusPanel, clearance, ...callbacks }: SceneProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const [sceneInitialized, setSceneInitialized] = useState(false)
   
@@ -68,17 +326,51 @@ export default function SceneImpl({ modelPath, designData }: SceneProps) {
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null)
   const controlsRef = useRef<OrbitControls | null>(null)
   const animationFrameRef = useRef<number | null>(null)
+  // Read at texture time, since applyDesignTexture is also called from outside
+  const productPanelsRef = useRef(productPanels)
+  productPanelsRef.current = productPanels
+  const meshMappingRef = useRef(meshMapping)
+  meshMappingRef.current = meshMapping
+  // Read when events happen, so new handlers on each render don't restart the scene
+  const callbacksRef = useRef<ViewerCallbacks>(callbacks)
+  callbacksRef.current = callbacks
+  const [selectedMesh, setSelectedMesh] = useState<MappedMeshInfo | null>(null)
+  const [autoRotate, setAutoRotate] = useState(true)
+  const cameraTweenRef = useRef<CameraTween | null>(null)
+  const [exploded, setExploded] = useState(false)
+  const explodeRef = useRef<ExplodeAnimation>(createExplodeAnimation())
+  // Where the model's centre ended up once it was scaled into the scene
+  const modelCenterRef = useRef(new THREE.Vector3())
+  // Panel types found on the model, for the focus menu
+  const [foundPanelTypes, setFoundPanelTypes] = useState<PanelType[]>([])
+  const [environment, setEnvironment] = useState<EnvironmentPreset>('studio')
+  const [interiorGlow, setInteriorGlow] = useState<InteriorGlow>(DEFAULT_INTERIOR_GLOW)
+  // Read every frame by the animation loop
+  const interiorGlowRef = useRef(interiorGlow)
+  interiorGlowRef.current = interiorGlow
+  const glowLightsRef = useRef<THREE.PointLight[]>([])
+  // The model's bounds once centred and scaled, for placing things inside the case
+  const modelBoxRef = useRef(new THREE.Box3())
+  const [clearanceMode, setClearanceMode] = useState(false)
+  const [hardwareBuild, setHardwareBuild] = useHardwareBuild()
+  const clearanceChecks = useMemo(
+    () => clearance ? checkClearance(clearance, hardwareBuild) : [],
+    [clearance, hardwareBuild]
+  )
+  const mapperEnabled = !!mapper
   
-  // Store panel references
-  const backPanelRef = useRef<THREE.Mesh | null>(null)
-  const glassPanelRef = useRef<THREE.Mesh | null>(null)
+  // Store panel references, keyed by panel type
+  const panelMeshesRef = useRef<Record<PanelType, THREE.Mesh[]>>({})
+  // The panel designs the model currently shows, so unchanged panels aren't recomposed
+  const appliedPanelsRef = useRef<Record<PanelType, PanelDesign>>({})
+  const lastTextureUpdateRef = useRef(0)
+  // Latest texture request per panel, so a slow compose can't overwrite a newer one
+  const textureRequestRef = useRef<Record<PanelType, number>>({})
 
   // Initialize the scene
   useEffect(() => {
     if (!containerRef.current) return
     
-    console.log("Setting up Three.js scene")
-    
     // Create scene
     const scene = new THREE.Scene()
     scene.background = new THREE.Color(0x111111)
@@ -111,21 +403,16 @@ export default function SceneImpl({ modelPath, designData }: SceneProps) {
     containerRef.current.appendChild(renderer.domElement)
     rendererRef.current = renderer
     
-    // Add lights
-    const ambientLight = new THREE.AmbientLight(0xffffff, 2)
-    scene.add(ambientLight)
+    // Panel labels are HTML laid over the canvas, so they stay sharp and can be clicked
+    const labelRenderer = new CSS2DRenderer()
+    labelRenderer.setSize(containerWidth, containerHeight)
+    labelRenderer.domElement.style.position = 'absolute'
+    labelRenderer.domElement.style.top = '0'
+    labelRenderer.domElement.style.left = '0'
+    labelRenderer.domElement.style.pointerEvents = 'none'
+    containerRef.current.appendChild(labelRenderer.domElement)
     
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 2)
-    directionalLight.position.set(5, 5, 5)
-    scene.add(directionalLight)
-    
-    const backLight = new THREE.DirectionalLight(0xffffff, 1)
-    backLight.position.set(-5, -5, -5)
-    scene.add(backLight)
-    
-    // Add a point light near the camera
-    const pointLight = new THREE.PointLight(0xffffff, 1)
-    camera.add(pointLight)
+    // Lights come from the environment preset; the camera is in the scene so lights can follow it
     scene.add(camera)
     
     // Controls
@@ -141,46 +428,42 @@ export default function SceneImpl({ modelPath, designData }: SceneProps) {
     controls.enableZoom = true
     controls.enableRotate = true
     controlsRef.current = controls
+    // Grabbing the view hands it back to the user mid-flight
+    controls.addEventListener('start', () => {
+      cameraTweenRef.current = null
+    })
     
     // Animation function
     const animate = () => {
       if (!controlsRef.current || !rendererRef.current || !sceneRef.current || !cameraRef.current) return
       
       animationFrameRef.current = requestAnimationFrame(animate)
+      if (cameraTweenRef.current && stepCameraTween(cameraTweenRef.current, performance.now(), cameraRef.current, controlsRef.current)) {
+        cameraTweenRef.current = null
+      }
       controlsRef.current.update()
+      updateInteriorGlow(glowLightsRef.current, interiorGlowRef.current, performance.now())
+      stepExplodeAnimation(explodeRef.current, performance.now())
       rendererRef.current.render(sceneRef.current, cameraRef.current)
+      labelRenderer.render(sceneRef.current, cameraRef.current)
     }
     
     // Load the model
-    const loader = new GLTFLoader()
-    console.log('Loading model from path:', modelPath)
+    const loading = new AbortController()
     
-    loader.load(
-      modelPath,
+    loadModel(modelPath, renderer, {
+      version: modelVersion,
+      signal: loading.signal,
+      onProgress: (progress) => {
+        if (loading.signal.aborted) return
+        callbacksRef.current.onLoadProgress?.(progress)
+      }
+    }).then(
       (gltf) => {
-        scene.add(gltf.scene)
+        // The viewer was unmounted or switched models while this one downloaded
+        if (loading.signal.aborted) return
         
-        // Find panels in the model
-        gltf.scene.traverse((child) => {
-          if (child instanceof THREE.Mesh) {
-            console.log(`Found mesh: ${child.name}`)
-            
-            // For the Corsair 4000D model specifically
-            if (child.name === 'Object_44001' || child.name.includes('back') || child.name.includes('Back')) {
-              console.log('Found back panel:', child.name)
-              child.userData.isPanel = true
-              child.userData.panelType = 'back'
-              backPanelRef.current = child
-            } 
-            else if (child.name === 'Object_42' || child.name === 'Object_43' || 
-                    child.name.includes('glass') || child.name.includes('Glass')) {
-              console.log('Found glass panel:', child.name)
-              child.userData.isPanel = true
-              child.userData.panelType = 'glass'
-              glassPanelRef.current = child
-            }
-          }
-        })
+        scene.add(gltf.scene)
         
         // Center and scale model
         const box = new THREE.Box3().setFromObject(gltf.scene)
@@ -195,18 +478,40 @@ export default function SceneImpl({ modelPath, designData }: SceneProps) {
         gltf.scene.position.x = -modelCenter.x * scale
         gltf.scene.position.y = -modelCenter.y * scale
         gltf.scene.position.z = -modelCenter.z * scale
+        gltf.scene.updateMatrixWorld(true)
+        
+        // Find the product's panels in the model
+        const panelTypes = (productPanelsRef.current || []).map(panel => panel.panelType)
+        panelMeshesRef.current = findPanelMeshes(gltf.scene, panelTypes, meshMappingRef.current || {})
+        setFoundPanelTypes(Object.keys(panelMeshesRef.current))
         
         // Adjust camera to fit model
         const boundingBox = new THREE.Box3().setFromObject(gltf.scene)
         const cameraTarget = boundingBox.getCenter(new THREE.Vector3())
-        controls.target.copy(cameraTarget)
+        modelCenterRef.current = cameraTarget
+        modelBoxRef.current = boundingBox
+
+        // Always present, just dark while the glow is off, so toggling it doesn't recompile every shader
+        glowLightsRef.current = createGlowLights(boundingBox)
+        glowLightsRef.current.forEach(light => scene.add(light))
+        
+        // Worked out from the assembled model; each panel moves straight out of its face
+        const explodedPanels = getExplodedPanels(panelMeshesRef.current, cameraTarget, EXPLODE_DISTANCE)
+        explodeRef.current = {
+          ...createExplodeAnimation(),
+          panels: explodedPanels,
+          labels: explodedPanels.map(({ panelType }) => createPanelLabel(
+            getProductPanel(productPanelsRef.current, panelType).label,
+            () => callbacksRef.current.onPanelSelect?.(panelType)
+          ))
+        }
+        explodeRef.current.labels.forEach(label => scene.add(label))
+        setExploded(false)
         
-        // Position camera to get a good view
-        camera.position.set(
-          cameraTarget.x + 2,
-          cameraTarget.y + 1.5,
-          cameraTarget.z + 2
-        )
+        // Start from the three-quarter view
+        const home = presetPlacement('three-quarter', cameraTarget)
+        controls.target.copy(home.target)
+        camera.position.copy(home.position)
         camera.lookAt(cameraTarget)
         
         // Force a render
@@ -214,14 +519,12 @@ export default function SceneImpl({ modelPath, designData }: SceneProps) {
         
         // Mark scene as initialized
         setSceneInitialized(true)
-        
-        console.log('Model loaded successfully')
-      },
-      (progress) => {
-        console.log(`Loading progress: ${Math.round(progress.loaded / progress.total * 100)}%`)
+        callbacksRef.current.onLoad?.()
       },
       (error) => {
+        if (loading.signal.aborted) return
         console.error('Error loading model:', error)
+        callbacksRef.current.onError?.(error instanceof Error ? error : new Error(`Failed to load 3D model: ${modelPath}`))
       }
     )
     
@@ -239,13 +542,14 @@ export default function SceneImpl({ modelPath, designData }: SceneProps) {
       cameraRef.current.updateProjectionMatrix()
       
       rendererRef.current.setSize(width, height)
+      labelRenderer.setSize(width, height)
     }
     
     window.addEventListener('resize', handleResize)
     
     // Cleanup
     return () => {
-      console.log('Cleaning up Three.js scene')
+      loading.abort()
       
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current)
@@ -263,156 +567,467 @@ export default function SceneImpl({ modelPath, designData }: SceneProps) {
         }
       }
       
+      if (containerRef.current?.contains(labelRenderer.domElement)) {
+        containerRef.current.removeChild(labelRenderer.domElement)
+      }
+      
       window.removeEventListener('resize', handleResize)
     }
-  }, [modelPath])
+  }, [modelPath, modelVersion])
 
   // Function to apply design texture
-  const applyDesignTexture = (
-    panelType: 'back' | 'glass', 
-    imageUrl: string,
-    position = { x: 50, y: 50 },
-    scale = { width: 100, height: 100 },
-    rotation = 0
-  ) => {
-    console.log(`Applying texture to ${panelType} panel:`, {
-      imageUrl,
-      position,
-      scale,
-      rotation
-    })
+  const applyDesignTexture = async (panel: PanelDesign) => {
+    const { panelType } = panel
     
-    // Get the target panel
-    const targetPanel = panelType === 'back' ? backPanelRef.current : glassPanelRef.current
+    // Get the target meshes; a panel can be modelled as several
+    const targetMeshes = panelMeshesRef.current[panelType] || []
+    const { surface } = getProductPanel(productPanelsRef.current, panelType)
+    const geometry = getPanelGeometry(productPanelsRef.current, panelType)
     
-    if (!targetPanel) {
+    if (targetMeshes.length === 0) {
       console.error(`No ${panelType} panel found to apply texture`)
       return
     }
     
-    console.log(`Found ${panelType} panel:`, targetPanel.name)
-    
-    // Handle CORS issues by creating a local canvas with the image
-    const img = new Image()
-    img.crossOrigin = "anonymous"
-    
-    img.onload = () => {
-      console.log('Image loaded successfully')
-      
-      // Create a canvas to draw the image
-      const canvas = document.createElement('canvas')
-      const ctx = canvas.getContext('2d')
-      
-      // Set canvas size to match image
-      canvas.width = img.width
-      canvas.height = img.height
-      
-      // Draw image to canvas
-      if (ctx) {
-        ctx.drawImage(img, 0, 0)
-        
-        // Create texture from canvas
-        const texture = new THREE.CanvasTexture(canvas)
-        
-        // Apply texture transformations
-        texture.center.set(0.5, 0.5)
-        texture.repeat.set(scale.width/100, scale.height/100)
-        texture.rotation = rotation * Math.PI / 180
-        texture.offset.set((position.x - 50)/100, (position.y - 50)/100)
-        
-        // Create a material appropriate for the panel type
-        let material
-        
-        if (panelType === 'back') {
-          // For back panel (metal) - use a material that shows the texture clearly
-          material = new THREE.MeshStandardMaterial({
-            map: texture,
-            metalness: 0.7,
-            roughness: 0.3,
-            color: 0xffffff,
-            side: THREE.DoubleSide
-          })
-        } else {
-          // For glass panel - use a transparent material
-          material = new THREE.MeshStandardMaterial({
-            map: texture,
-            transparent: true,
-            opacity: 0.9,
-            side: THREE.DoubleSide
-          })
-        }
-        
-        // Store original material if needed
-        if (!targetPanel.userData.originalMaterial) {
-          targetPanel.userData.originalMaterial = targetPanel.material
-        }
-        
-        // Apply to panel
-        targetPanel.material = material
-        
-        // Force a render update
-        if (rendererRef.current && sceneRef.current && cameraRef.current) {
-          rendererRef.current.render(sceneRef.current, cameraRef.current)
-          console.log('Texture applied and rendered')
-        }
+    const request = (textureRequestRef.current[panelType] || 0) + 1
+    textureRequestRef.current[panelType] = request
+
+    // Store original material so it can be restored
+    targetMeshes.forEach(mesh => {
+      if (!mesh.userData.originalMaterial) {
+        mesh.userData.originalMaterial = mesh.material
       }
-    }
+    })
+
+    // The model's own UVs rarely match the 2D canvas, so project the design onto the panel's face
+    // (the model is centred on the origin when it loads)
+    projectPanelUVs(targetMeshes, new THREE.Vector3(), geometry)
     
-    img.onerror = (err) => {
-      console.error('Error loading image:', err)
+    try {
+      // Flatten the layer stack into one canvas, same frame as the 2D designer
+      const canvas = await composePanel(panel, geometry)
+      if (textureRequestRef.current[panelType] !== request) return
+      // Etch depth drives the finish, so engraving catches the light rather than looking printed
+      const material = createEtchedMaterial(surface, canvas)
+      
+      // Apply to panel, freeing the material it replaces
+      const replaced = new Set(targetMeshes.flatMap(mesh => Array.isArray(mesh.material) ? mesh.material : [mesh.material]))
+      targetMeshes.forEach(mesh => {
+        mesh.material = material
+      })
+      replaced.forEach(disposeEtchedMaterial)
+    } catch (err) {
+      console.error('Error composing panel design:', err)
+      callbacksRef.current.onError?.(err instanceof Error ? err : new Error(`Failed to draw the ${panelType} panel design`))
       
       // Use a simple colored material as fallback
-      const material = new THREE.MeshBasicMaterial({
-        color: panelType === 'back' ? 0xff0000 : 0x0000ff,
+      const fallback = new THREE.MeshBasicMaterial({
+        color: surface === 'metal' ? 0xff0000 : 0x0000ff,
         wireframe: true,
         side: THREE.DoubleSide
       })
-      
-      // Apply to panel
-      targetPanel.material = material
-      
-      // Force a render update
-      if (rendererRef.current && sceneRef.current && cameraRef.current) {
-        rendererRef.current.render(sceneRef.current, cameraRef.current)
-      }
+      targetMeshes.forEach(mesh => {
+        mesh.material = fallback
+      })
     }
     
-    // Set the source to trigger loading
-    img.src = imageUrl
+    // Force a render update
+    if (rendererRef.current && sceneRef.current && cameraRef.current) {
+      rendererRef.current.render(sceneRef.current, cameraRef.current)
+    }
   }
 
-  // Make the applyDesignTexture function available globally
-  useEffect(() => {
-    if (window) {
-      (window as any).applyDesignTexture = applyDesignTexture
+  // Puts the model's own material back on a panel that no longer has a design
+  const resetPanelMaterial = (panelType: PanelType) => {
+    textureRequestRef.current[panelType] = (textureRequestRef.current[panelType] || 0) + 1
+    const targetMeshes = panelMeshesRef.current[panelType] || []
+    const replaced = new Set<THREE.Material>()
+
+    targetMeshes.forEach(mesh => {
+      if (mesh.userData.originalMaterial) {
+        (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).forEach(material => replaced.add(material))
+        mesh.material = mesh.userData.originalMaterial
+        delete mesh.userData.originalMaterial
+      }
+      if (mesh.userData.originalGeometry) {
+        mesh.geometry.dispose()
+        mesh.geometry = mesh.userData.originalGeometry
+        delete mesh.userData.originalGeometry
+      }
+    })
+    replaced.forEach(disposeEtchedMaterial)
+  }
+
+  const renderNow = () => {
+    if (rendererRef.current && sceneRef.current && cameraRef.current) {
+      rendererRef.current.render(sceneRef.current, cameraRef.current)
+    }
+  }
+
+  const resetMaterials = (panelType?: PanelType) => {
+    const panelTypes = panelType ? [panelType] : Object.keys(panelMeshesRef.current)
+    panelTypes.forEach(type => {
+      // Forget what was applied, so the next design change draws the panel again
+      delete appliedPanelsRef.current[type]
+      resetPanelMaterial(type)
+    })
+    renderNow()
+  }
+
+  const flyCamera = useCallback((to: CameraPlacement) => {
+    const camera = cameraRef.current
+    const controls = controlsRef.current
+    if (!camera || !controls) return
+
+    // Stop turning so the chosen side stays in view
+    setAutoRotate(false)
+    cameraTweenRef.current = {
+      from: { position: camera.position.clone(), target: controls.target.clone() },
+      to,
+      startedAt: performance.now()
     }
   }, [])
 
+  const setCameraView = useCallback((view: CameraView) => {
+    const camera = cameraRef.current
+    const controls = controlsRef.current
+    if (!camera || !controls) return
+
+    if (typeof view === 'string') {
+      flyCamera(presetPlacement(view, modelCenterRef.current))
+      return
+    }
+
+    const meshes = panelMeshesRef.current[view.focusPanel] || []
+    if (meshes.length === 0) {
+      console.warn(`No ${view.focusPanel} panel on the model to focus`)
+      return
+    }
+    flyCamera(panelPlacement(meshes, modelCenterRef.current, camera, controls.minDistance))
+  }, [flyCamera])
+
+  useEffect(() => {
+    if (controlsRef.current) {
+      // The mapper holds the model still so meshes stay under the pointer
+      controlsRef.current.autoRotate = autoRotate && !mapperEnabled
+    }
+  }, [autoRotate, mapperEnabled, sceneInitialized])
+
+  // The scene is rebuilt for each model, so its lighting is too
+  useEffect(() => {
+    const scene = sceneRef.current
+    const camera = cameraRef.current
+    const renderer = rendererRef.current
+    if (!scene || !camera || !renderer) return
+    return applyEnvironment(environment, scene, camera, renderer)
+  }, [environment, modelPath, modelVersion])
+
+  // Stand-ins for the customer's parts, rebuilt whenever the build changes
+  useEffect(() => {
+    const scene = sceneRef.current
+    if (!sceneInitialized || !scene || !clearanceMode || clearanceChecks.length === 0) return
+    const blocks = createClearanceBlocks(modelBoxRef.current, clearanceChecks, clearance?.caseSizeMm ?? null)
+    scene.add(blocks)
+    return () => disposeClearanceBlocks(blocks)
+  }, [sceneInitialized, clearanceMode, clearanceChecks, clearance])
+
+  // Reverses from wherever the panels are, so toggling mid-way doesn't jump
+  useEffect(() => {
+    const explode = explodeRef.current
+    const target = exploded ? 1 : 0
+    if (explode.target === target) return
+    explode.from = explode.progress
+    explode.target = target
+    explode.startedAt = performance.now()
+  }, [exploded])
+
+  useEffect(() => {
+    if (sceneInitialized && focusPanel) {
+      setCameraView({ focusPanel })
+    }
+  }, [focusPanel, sceneInitialized, setCameraView])
+
+  const capturePng = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+    // Rendered just before reading, since the drawing buffer isn't kept between frames
+    renderNow()
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob)
+      } else {
+        reject(new Error('Failed to capture the 3D view'))
+      }
+    }, 'image/png')
+  })
+
+  // Renders at an export's size and background while `capture` runs, then puts the viewer back.
+  // The canvas keeps its on-page size throughout; only its drawing buffer changes.
+  const withExportSettings = async <T,>(
+    options: SnapshotOptions,
+    capture: (canvas: HTMLCanvasElement) => Promise<T>
+  ): Promise<T> => {
+    const renderer = rendererRef.current
+    const scene = sceneRef.current
+    const camera = cameraRef.current
+    if (!renderer || !scene || !camera) {
+      throw new Error('The 3D view is not ready')
+    }
+
+    const previousSize = renderer.getSize(new THREE.Vector2())
+    const previousPixelRatio = renderer.getPixelRatio()
+    const previousBackground = scene.background
+    const brandedBackground = options.background === 'branded' ? createBrandedBackground(options.width, options.height) : null
+
+    renderer.setPixelRatio(1)
+    renderer.setSize(options.width, options.height, false)
+    camera.aspect = options.width / options.height
+    camera.updateProjectionMatrix()
+    scene.background = brandedBackground
+
+    try {
+      return await capture(renderer.domElement)
+    } finally {
+      scene.background = previousBackground
+      brandedBackground?.dispose()
+      renderer.setPixelRatio(previousPixelRatio)
+      renderer.setSize(previousSize.x, previousSize.y, false)
+      camera.aspect = previousSize.x / previousSize.y
+      camera.updateProjectionMatrix()
+      renderNow()
+    }
+  }
+
+  const snapshot = async (options?: SnapshotOptions) => {
+    const renderer = rendererRef.current
+    if (!renderer) {
+      throw new Error('The 3D view is not ready')
+    }
+    return options ? withExportSettings(options, capturePng) : capturePng(renderer.domElement)
+  }
+
+  const recordTurntable = (options: TurntableOptions) => {
+    const controls = controlsRef.current
+    if (!controls) {
+      return Promise.reject(new Error('The 3D view is not ready'))
+    }
+
+    // Video has no alpha channel, so a transparent turntable keeps the viewer's background
+    const background = sceneRef.current?.background
+    return withExportSettings(options, canvas => {
+      if (options.background === 'transparent' && sceneRef.current) {
+        sceneRef.current.background = background || null
+      }
+
+      const wasRotating = controls.autoRotate
+      const previousSpeed = controls.autoRotateSpeed
+      // A speed of 1 turns once a minute at 60 fps; the turn is measured below, so other frame rates still stop at 360°
+      controls.autoRotateSpeed = 60000 / options.durationMs
+      controls.autoRotate = true
+
+      let lastAngle = controls.getAzimuthalAngle()
+      let turned = 0
+      return recordCanvas(canvas, options.fps, () => {
+        const angle = controls.getAzimuthalAngle()
+        // The azimuth wraps at ±180°
+        let delta = angle - lastAngle
+        if (delta > Math.PI) delta -= Math.PI * 2
+        if (delta < -Math.PI) delta += Math.PI * 2
+        turned += Math.abs(delta)
+        lastAngle = angle
+        return turned >= Math.PI * 2
+      }).finally(() => {
+        controls.autoRotate = wasRotating
+        controls.autoRotateSpeed = previousSpeed
+      })
+    })
+  }
+
+  // Hand the page its controller once there's a model to control. It's rebuilt every render,
+  // so its methods always see the latest props.
+  useEffect(() => {
+    if (!controllerRef || !sceneInitialized) return
+
+    controllerRef.current = {
+      applyDesign: async (panel) => {
+        appliedPanelsRef.current[panel.panelType] = panel
+        await applyDesignTexture(panel)
+      },
+      resetMaterials,
+      setCameraView,
+      setAutoRotate: (enabled) => setAutoRotate(enabled),
+      setEnvironment: (preset) => setEnvironment(preset),
+      setInteriorGlow: (glow) => setInteriorGlow(glow),
+      setExploded: (enabled) => setExploded(enabled),
+      snapshot,
+      recordTurntable
+    }
+    return () => {
+      controllerRef.current = null
+    }
+  })
+
   // Apply design data when component mounts or changes
   useEffect(() => {
     if (!sceneInitialized || !designData) return
     
-    console.log('Design data received:', designData)
-    
-    // Wait a bit for the model to fully load before applying textures
-    const timer = setTimeout(() => {
+    const updateTextures = () => {
+      lastTextureUpdateRef.current = Date.now()
       designData.panels.forEach(panel => {
-        if (panel.imageUrl) {
-          console.log(`Applying design for ${panel.panelType} panel:`, panel)
-          applyDesignTexture(
-            panel.panelType, 
-            panel.imageUrl,
-            panel.position,
-            panel.scale,
-            panel.rotation
-          )
+        // Edits replace only the panel they touch, so the rest keep their textures
+        if (appliedPanelsRef.current[panel.panelType] === panel) return
+        appliedPanelsRef.current[panel.panelType] = panel
+
+        if (hasVisibleLayers(panel)) {
+          applyDesignTexture(panel)
+        } else {
+          resetPanelMaterial(panel.panelType)
         }
       })
-    }, 1000) // Wait 1 second to ensure model is loaded
-    
+    }
+
+    // Throttled rather than debounced, so the model keeps up with a drag instead of waiting for it to end
+    const timer = setTimeout(updateTextures, Math.max(0, lastTextureUpdateRef.current + TEXTURE_UPDATE_MS - Date.now()))
     return () => clearTimeout(timer)
   }, [designData, sceneInitialized])
 
+  // Panel mapper: hovering highlights a mesh, clicking selects it for assignment
+  useEffect(() => {
+    const renderer = rendererRef.current
+    const scene = sceneRef.current
+    const camera = cameraRef.current
+    if (!mapperEnabled || !sceneInitialized || !renderer || !scene || !camera) return
+
+    const hoverMaterial = new THREE.MeshBasicMaterial({ color: HOVER_COLOR, transparent: true, opacity: HOVER_OPACITY, side: THREE.DoubleSide })
+    const selectedMaterial = new THREE.MeshBasicMaterial({ color: SELECTED_COLOR, transparent: true, opacity: SELECTED_OPACITY, side: THREE.DoubleSide })
+    let hovered: THREE.Mesh | null = null
+    let selected: THREE.Mesh | null = null
+    let boxHelper: THREE.Box3Helper | null = null
+    let pressedAt: { x: number, y: number } | null = null
+
+    const highlight = (mesh: THREE.Mesh, material: THREE.Material | null) => {
+      if (material) {
+        if (!mesh.userData.mapperMaterial) mesh.userData.mapperMaterial = mesh.material
+        mesh.material = material
+      } else if (mesh.userData.mapperMaterial) {
+        mesh.material = mesh.userData.mapperMaterial
+        delete mesh.userData.mapperMaterial
+      }
+    }
+
+    const pick = (event: PointerEvent) => pickMesh(event, renderer.domElement, camera, scene)
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (pressedAt) return
+      const mesh = pick(event)
+      if (mesh === hovered) return
+      if (hovered && hovered !== selected) highlight(hovered, null)
+      hovered = mesh
+      if (mesh && mesh !== selected) highlight(mesh, hoverMaterial)
+      renderer.domElement.style.cursor = mesh ? 'pointer' : ''
+    }
+
+    const handlePointerDown = (event: PointerEvent) => {
+      pressedAt = { x: event.clientX, y: event.clientY }
+    }
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const start = pressedAt
+      pressedAt = null
+      // A drag orbits the camera rather than selecting
+      if (!start || Math.hypot(event.clientX - start.x, event.clientY - start.y) > CLICK_TOLERANCE_PX) return
+
+      const mesh = pick(event)
+      if (selected) highlight(selected, null)
+      if (boxHelper) {
+        scene.remove(boxHelper)
+        boxHelper.dispose()
+        boxHelper = null
+      }
+
+      selected = mesh
+      if (!mesh) {
+        setSelectedMesh(null)
+        return
+      }
+
+      highlight(mesh, selectedMaterial)
+      const box = new THREE.Box3().setFromObject(mesh)
+      boxHelper = new THREE.Box3Helper(box, SELECTED_COLOR)
+      scene.add(boxHelper)
+
+      const size = box.getSize(new THREE.Vector3())
+      setSelectedMesh({
+        name: mesh.name,
+        size: { x: size.x, y: size.y, z: size.z },
+        suggestion: suggestPanelType(mesh, productPanelsRef.current || [])
+      })
+    }
+
+    const canvas = renderer.domElement
+    canvas.addEventListener('pointermove', handlePointerMove)
+    canvas.addEventListener('pointerdown', handlePointerDown)
+    canvas.addEventListener('pointerup', handlePointerUp)
+
+    return () => {
+      canvas.removeEventListener('pointermove', handlePointerMove)
+      canvas.removeEventListener('pointerdown', handlePointerDown)
+      canvas.removeEventListener('pointerup', handlePointerUp)
+      canvas.style.cursor = ''
+      if (hovered) highlight(hovered, null)
+      if (selected) highlight(selected, null)
+      if (boxHelper) {
+        scene.remove(boxHelper)
+        boxHelper.dispose()
+      }
+      hoverMaterial.dispose()
+      selectedMaterial.dispose()
+      setSelectedMesh(null)
+    }
+  }, [mapperEnabled, sceneInitialized])
+
+  // Clicking one of the product's panels reports it, e.g. so the page can open it in the editor
+  useEffect(() => {
+    const renderer = rendererRef.current
+    const scene = sceneRef.current
+    const camera = cameraRef.current
+    if (mapperEnabled || !sceneInitialized || !renderer || !scene || !camera) return
+
+    const canvas = renderer.domElement
+    const pickPanel = (event: PointerEvent): PanelType | null => {
+      const mesh = pickMesh(event, canvas, camera, scene)
+      return mesh?.userData.isPanel ? mesh.userData.panelType : null
+    }
+    let pressedAt: { x: number, y: number } | null = null
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (pressedAt || !callbacksRef.current.onPanelSelect) return
+      canvas.style.cursor = pickPanel(event) ? 'pointer' : ''
+    }
+
+    const handlePointerDown = (event: PointerEvent) => {
+      pressedAt = { x: event.clientX, y: event.clientY }
+    }
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const start = pressedAt
+      pressedAt = null
+      if (!start || Math.hypot(event.clientX - start.x, event.clientY - start.y) > CLICK_TOLERANCE_PX) return
+
+      const panelType = pickPanel(event)
+      if (panelType) callbacksRef.current.onPanelSelect?.(panelType)
+    }
+
+    canvas.addEventListener('pointermove', handlePointerMove)
+    canvas.addEventListener('pointerdown', handlePointerDown)
+    canvas.addEventListener('pointerup', handlePointerUp)
+
+    return () => {
+      canvas.removeEventListener('pointermove', handlePointerMove)
+      canvas.removeEventListener('pointerdown', handlePointerDown)
+      canvas.removeEventListener('pointerup', handlePointerUp)
+      canvas.style.cursor = ''
+    }
+  }, [mapperEnabled, sceneInitialized])
+
   return (
     <div 
       ref={containerRef} 
@@ -424,154 +1039,171 @@ export default function SceneImpl({ modelPath, designData }: SceneProps) {
         overflow: 'hidden'
       }} 
     >
+      {mapper && (
+        <PanelMapperPanel
+          selectedMesh={selectedMesh}
+          panels={productPanels || []}
+          meshMapping={meshMapping || {}}
+          onAssign={mapper.onAssign}
+        />
+      )}
+
+      {sceneInitialized && (
+        <ViewerCameraControls
+          panels={(productPanels || []).filter(panel => foundPanelTypes.includes(panel.panelType))}
+          autoRotate={autoRotate}
+          exploded={exploded}
+          onView={setCameraView}
+          onAutoRotateChange={setAutoRotate}
+          onExplodedChange={setExploded}
+        />
+      )}
+
+      {sceneInitialized && !mapper && (
+        <div className="absolute bottom-4 left-4 z-10 flex items-end gap-2">
+          <ViewerLightingControls
+            environment={environment}
+            glow={interiorGlow}
+            onEnvironmentChange={setEnvironment}
+            onGlowChange={setInteriorGlow}
+          />
+          {clearance && (
+            <ViewerClearanceControls
+              enabled={clearanceMode}
+              build={hardwareBuild}
+              checks={clearanceChecks}
+              onEnabledChange={setClearanceMode}
+              onBuildChange={setHardwareBuild}
+            />
+          )}
+        </div>
+      )}
+
       {/* Back Button */}
-      <div className="absolute top-4 left-4 z-10">
-        <button 
-          onClick={() => {
-            // Use a custom event to communicate with the parent component
-            if (window) {
-              const event = new CustomEvent('backToDesign')
-              window.dispatchEvent(event)
-            }
-          }}
-          className="px-4 py-2 bg-gray-700 hover:bg-gray-800 text-white font-medium rounded-lg flex items-center"
-        >
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18"></path>
-          </svg>
-          Back to Design
-        </button>
-      </div>
-      
-      {/* Enhanced Debug Panel */}
-      <div className="absolute top-4 right-4 z-10 bg-gray-800 p-4 rounded-lg shadow-lg text-white">
-        <h3 className="text-lg font-bold mb-2">Debug Tools</h3>
-        
-        <div className="space-y-2">
-          <button 
-            onClick={() => {
-              // Apply a bright red material to the back panel
-              if (sceneRef.current) {
-                sceneRef.current.traverse((child) => {
-                  if (child instanceof THREE.Mesh && 
-                      (child.name === 'Object_44001' || 
-                       (child.userData.isPanel && child.userData.panelType === 'back'))) {
-                    child.material = new THREE.MeshBasicMaterial({ color: 0xff0000 });
-                    
-                    // Force a render
-                    if (rendererRef.current) {
-                      rendererRef.current.render(sceneRef.current, cameraRef.current);
-                    }
-                  }
-                });
-              }
-            }}
-            className="w-full px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md"
-          >
-            Red Back Panel
-          </button>
-          
-          <button 
-            onClick={() => {
-              // Apply a bright blue material to the glass panel
-              if (sceneRef.current) {
-                sceneRef.current.traverse((child) => {
-                  if (child instanceof THREE.Mesh && 
-                      ((child.name === 'Object_42' || child.name === 'Object_43') || 
-                       (child.userData.isPanel && child.userData.panelType === 'glass'))) {
-                    child.material = new THREE.MeshBasicMaterial({ 
-                      color: 0x00aaff,
-                      transparent: true,
-                      opacity: 0.7
-                    });
-                    
-                    // Force a render
-                    if (rendererRef.current) {
-                      rendererRef.current.render(sceneRef.current, cameraRef.current);
-                    }
-                  }
-                });
-              }
-            }}
-            className="w-full px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md"
-          >
-            Blue Glass Panel
-          </button>
-          
-          <button 
-            onClick={() => {
-              // List all meshes in the console
-              if (sceneRef.current) {
-                console.log("All meshes in the scene:");
-                sceneRef.current.traverse((child) => {
-                  if (child instanceof THREE.Mesh) {
-                    console.log(`Mesh: ${child.name}`, child);
-                  }
-                });
-              }
-            }}
-            className="w-full px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-md"
-          >
-            List All Meshes
-          </button>
-          
+      {!mapper && callbacks.onBack && (
+        <div className="absolute top-4 left-4 z-10">
           <button 
-            onClick={() => {
-              // Apply the custom design with canvas
-              applyDesignTexture('back', 'test', {x: 50, y: 50}, {width: 100, height: 100}, 0);
-              applyDesignTexture('glass', 'test', {x: 50, y: 50}, {width: 100, height: 100}, 0);
-            }}
-            className="w-full px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md"
+            onClick={callbacks.onBack}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-800 text-white font-medium rounded-lg flex items-center"
           >
-            Apply Canvas Design
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18"></path>
+            </svg>
+            Back to Design
           </button>
-          
-          <button 
-            onClick={() => {
-              // Add a simple cube to the scene
-              if (sceneRef.current) {
-                const cube = new THREE.Mesh(
-                  new THREE.BoxGeometry(0.5, 0.5, 0.5),
-                  new THREE.MeshBasicMaterial({ color: 0x00ff00 })
-                );
-                cube.position.set(0, 1, 0);
-                sceneRef.current.add(cube);
-                
+        </div>
+      )}
+      
+      {/* Enhanced Debug Panel */}
+      {!mapper && !live && (
+        <div className="absolute top-4 right-4 z-10 bg-gray-800 p-4 rounded-lg shadow-lg text-white">
+          <h3 className="text-lg font-bold mb-2">Debug Tools</h3>
+        
+          <div className="space-y-2">
+            <button 
+              onClick={() => {
+                // Apply a bright red material to the back panel, as found through the product's mapping
+                const material = new THREE.MeshBasicMaterial({ color: 0xff0000 });
+                (panelMeshesRef.current.back || []).forEach(mesh => {
+                  mesh.material = material
+                })
+
                 // Force a render
-                if (rendererRef.current) {
+                if (rendererRef.current && sceneRef.current && cameraRef.current) {
                   rendererRef.current.render(sceneRef.current, cameraRef.current);
                 }
-                console.log("Test cube added");
-              }
-            }}
-            className="w-full px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md"
-          >
-            Add Test Cube
-          </button>
+              }}
+              className="w-full px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md"
+            >
+              Red Back Panel
+            </button>
           
-          <button 
-            onClick={() => {
-              // Move the camera to a different position
-              if (sceneRef.current) {
-                sceneRef.current.traverse((child) => {
-                  if (child instanceof THREE.Mesh) {
-                    child.position.set(-3, 2, 3);
-                  }
+            <button 
+              onClick={() => {
+                // Apply a bright blue material to the glass panel, as found through the product's mapping
+                const material = new THREE.MeshBasicMaterial({ 
+                  color: 0x00aaff,
+                  transparent: true,
+                  opacity: 0.7
                 });
-                
+                (panelMeshesRef.current.glass || []).forEach(mesh => {
+                  mesh.material = material
+                })
+
                 // Force a render
-                if (rendererRef.current) {
+                if (rendererRef.current && sceneRef.current && cameraRef.current) {
                   rendererRef.current.render(sceneRef.current, cameraRef.current);
                 }
-                console.log("Camera moved");
-              }
-            }}
-            className="w-full px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-md"
-          >
-            Move Camera
-          </button>
+              }}
+              className="w-full px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md"
+            >
+              Blue Glass Panel
+            </button>
+          
+            <button 
+              onClick={() => {
+                // List all meshes in the console
+                if (sceneRef.current) {
+                  console.log("All meshes in the scene:");
+                  sceneRef.current.traverse((child) => {
+                    if (child instanceof THREE.Mesh) {
+                      console.log(`Mesh: ${child.name}`, child);
+                    }
+                  });
+                }
+              }}
+              className="w-full px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-md"
+            >
+              List All Meshes
+            </button>
+          
+            <button 
+              onClick={() => {
+                // Re-apply the current design stacks
+                designData?.panels.forEach(panel => applyDesignTexture(panel));
+              }}
+              className="w-full px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md"
+            >
+              Apply Canvas Design
+            </button>
+          
+            <button 
+              onClick={() => {
+                // Add a simple cube to the scene
+                if (sceneRef.current) {
+                  const cube = new THREE.Mesh(
+                    new THREE.BoxGeometry(0.5, 0.5, 0.5),
+                    new THREE.MeshBasicMaterial({ color: 0x00ff00 })
+                  );
+                  cube.position.set(0, 1, 0);
+                  sceneRef.current.add(cube);
+                
+                  // Force a render
+                  if (rendererRef.current && cameraRef.current) {
+                    rendererRef.current.render(sceneRef.current, cameraRef.current);
+                  }
+                }
+              }}
+              className="w-full px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md"
+            >
+              Add Test Cube
+            </button>
+          
+            <button 
+              onClick={() => {
+                // Fly the camera to the other side of the model
+                flyCamera({
+                  position: modelCenterRef.current.clone().add(new THREE.Vector3(-3, 2, 3)),
+                  target: modelCenterRef.current.clone()
+                })
+              }}
+              className="w-full px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-md"
+            >
+              Move Camera
+            </button>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,150 @@
+'use client'
+
+import { TextAlign, TextLayer } from '@/app/lib/design'
+import { ETCH_FONTS } from '@/app/lib/fonts'
+
+interface TextLayerControlsProps {
+  layer: TextLayer
+  disabled: boolean
+  onChange: (patch: Partial<TextLayer>) => void
+}
+
+const ALIGNMENTS: TextAlign[] = ['left', 'center', 'right']
+
+export default function TextLayerControls({ layer, disabled, onChange }: TextLayerControlsProps) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-gray-300 mb-2">Text</label>
+        <textarea
+          rows={2}
+          value={layer.text}
+          disabled={disabled}
+          onChange={(e) => onChange({ text: e.target.value })}
+          className="w-full px-3 py-2 bg-gray-700 text-white rounded-lg"
+        />
+      </div>
+
+      <div>
+        <label className="block text-gray-300 mb-2">Font</label>
+        <select
+          value={layer.fontId}
+          disabled={disabled}
+          onChange={(e) => onChange({ fontId: e.target.value })}
+          className="w-full px-3 py-2 bg-gray-700 text-white rounded-lg"
+        >
+          {ETCH_FONTS.map(font => (
+            <option key={font.id} value={font.id} style={{ fontFamily: font.family }}>
+              {font.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-gray-300 mb-2">Size</label>
+        <div className="flex items-center">
+          <input
+            type="range"
+            min="2"
+            max="40"
+            step="0.5"
+            value={layer.fontSize}
+            disabled={disabled}
+            onChange={(e) => onChange({ fontSize: parseFloat(e.target.value) })}
+            className="w-full mr-3"
+          />
+          <span className="text-gray-300 w-12 text-right">{layer.fontSize}</span>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-gray-300 mb-2">Letter Spacing</label>
+        <div className="flex items-center">
+          <input
+            type="range"
+            min="-0.1"
+            max="1"
+            step="0.01"
+            value={layer.letterSpacing}
+            disabled={disabled}
+            onChange={(e) => onChange({ letterSpacing: parseFloat(e.target.value) })}
+            className="w-full mr-3"
+          />
+          <span className="text-gray-300 w-12 text-right">{layer.letterSpacing.toFixed(2)}</span>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-gray-300 mb-2">Alignment</label>
+        <div className="flex space-x-2">
+          {ALIGNMENTS.map(align => (
+            <button
+              key={align}
+              onClick={() => onChange({ align })}
+              disabled={disabled || layer.curve !== 0}
+              className={`flex-1 px-3 py-1 rounded text-sm capitalize disabled:opacity-50 ${
+                layer.align === align ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'
+              }`}
+            >
+              {align}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-gray-300 mb-2">Curve</label>
+        <div className="flex items-center">
+          <input
+            type="range"
+            min="-360"
+            max="360"
+            value={layer.curve}
+            disabled={disabled}
+            onChange={(e) => onChange({ curve: parseInt(e.target.value) })}
+            className="w-full mr-3"
+          />
+          <span className="text-gray-300 w-12 text-right">{layer.curve}°</span>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-gray-300 mb-2">Style</label>
+        <div className="flex space-x-2">
+          {(['fill', 'outline'] as const).map(style => (
+            <button
+              key={style}
+              onClick={() => onChange({ style })}
+              disabled={disabled}
+              className={`flex-1 px-3 py-1 rounded text-sm capitalize disabled:opacity-50 ${
+                layer.style === style ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'
+              }`}
+            >
+              {style}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {layer.style === 'outline' && (
+        <div>
+          <label className="block text-gray-300 mb-2">Outline Width</label>
+          <div className="flex items-center">
+            <input
+              type="range"
+              min="0.01"
+              max="0.2"
+              step="0.01"
+              value={layer.strokeWidth}
+              disabled={disabled}
+              onChange={(e) => onChange({ strokeWidth: parseFloat(e.target.value) })}
+              className="w-full mr-3"
+            />
+            <span className="text-gray-300 w-12 text-right">{layer.strokeWidth.toFixed(2)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { DesignLayer } from '@/app/lib/design'
+import { HandlePosition, TransformAction } from '@/app/hooks/useTransformGestures'
+
+interface TransformHandlesProps {
+  layer: DesignLayer
+  onPointerDown: (e: React.PointerEvent, action: TransformAction) => void
+}
+
+const CORNERS: HandlePosition[] = [
+  { x: -1, y: -1 }, { x: 1, y: -1 }, { x: -1, y: 1 }, { x: 1, y: 1 }
+]
+
+const EDGES: HandlePosition[] = [
+  { x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }
+]
+
+const CURSORS: Record<string, string> = {
+  '-1,-1': 'nwse-resize', '1,1': 'nwse-resize',
+  '1,-1': 'nesw-resize', '-1,1': 'nesw-resize',
+  '0,-1': 'ns-resize', '0,1': 'ns-resize',
+  '-1,0': 'ew-resize', '1,0': 'ew-resize'
+}
+
+// Selection frame drawn over the selected layer, sharing its box and rotation
+export default function TransformHandles({ layer, onPointerDown }: TransformHandlesProps) {
+  // Text is sized by its font, so stretching a single axis isn't offered
+  const handles = layer.type === 'text' ? CORNERS : [...CORNERS, ...EDGES]
+
+  return (
+    <div
+      className="absolute pointer-events-none outline outline-2 outline-dashed outline-blue-400"
+      style={{
+        left: `${layer.position.x}%`,
+        top: `${layer.position.y}%`,
+        width: `${layer.scale.width}%`,
+        height: `${layer.scale.height}%`,
+        transform: `translate(-50%, -50%) rotate(${layer.rotation}deg)`,
+      }}
+    >
+      {!layer.locked && (
+        <>
+          <div className="absolute left-1/2 -top-8 w-px h-8 bg-blue-400" />
+          <div
+            className="absolute left-1/2 -top-8 w-5 h-5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white border-2 border-blue-500 pointer-events-auto cursor-grab"
+            onPointerDown={(e) => {
+              e.stopPropagation()
+              onPointerDown(e, 'rotate')
+            }}
+            title="Rotate (hold Shift to snap to 15°)"
+          />
+          {handles.map(handle => (
+            <div
+              key={`${handle.x},${handle.y}`}
+              className="absolute w-4 h-4 -translate-x-1/2 -translate-y-1/2 bg-white border-2 border-blue-500 pointer-events-auto"
+              style={{
+                left: `${(handle.x + 1) * 50}%`,
+                top: `${(handle.y + 1) * 50}%`,
+                cursor: CURSORS[`${handle.x},${handle.y}`]
+              }}
+              onPointerDown={(e) => {
+                e.stopPropagation()
+                onPointerDown(e, handle)
+              }}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+'use client'
+
+import { ProductPanel } from '@/app/lib/panels'
+import { CAMERA_PRESETS, CameraView } from '@/app/lib/viewer'
+
+interface ViewerCameraControlsProps {
+  // Panels found on the model, which the camera can face
+  panels: ProductPanel[]
+  autoRotate: boolean
+  exploded: boolean
+  onView: (view: CameraView) => void
+  onAutoRotateChange: (enabled: boolean) => void
+  onExplodedChange: (exploded: boolean) => void
+}
+
+// View buttons along the bottom of the 3D viewer
+export default function ViewerCameraControls({ panels, autoRotate, exploded, onView, onAutoRotateChange, onExplodedChange }: ViewerCameraControlsProps) {
+  const buttonClasses = 'px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200'
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex flex-wrap items-center justify-center gap-1 max-w-[90%] bg-gray-900 bg-opacity-80 p-2 rounded-lg">
+      {CAMERA_PRESETS.map(({ preset, label }) => (
+        <button key={preset} onClick={() => onView(preset)} className={buttonClasses}>
+          {label}
+        </button>
+      ))}
+
+      {panels.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onView({ focusPanel: e.target.value })
+          }}
+          className="px-2 py-1 rounded text-xs bg-gray-700 text-gray-200"
+        >
+          <option value="">Focus panel...</option>
+          {panels.map(panel => (
+            <option key={panel.panelType} value={panel.panelType}>{panel.label}</option>
+          ))}
+        </select>
+      )}
+
+      {panels.length > 0 && (
+        <button
+          onClick={() => onExplodedChange(!exploded)}
+          className={`px-2 py-1 rounded text-xs ${exploded ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+        >
+          {exploded ? 'Assemble' : 'Explode'}
+        </button>
+      )}
+
+      <button
+        onClick={() => onAutoRotateChange(!autoRotate)}
+        className={`px-2 py-1 rounded text-xs ${autoRotate ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+      >
+        {autoRotate ? 'Auto-rotate on' : 'Auto-rotate off'}
+      </button>
+    </div>
+  )
+}
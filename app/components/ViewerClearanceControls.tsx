@@ -0,0 +1,101 @@
+'use client'
+
+import { ClearanceCheck, FitStatus, HardwareBuild, RADIATOR_SIZES_MM } from '@/app/lib/clearance'
+
+interface ViewerClearanceControlsProps {
+  enabled: boolean
+  build: HardwareBuild
+  checks: ClearanceCheck[]
+  onEnabledChange: (enabled: boolean) => void
+  onBuildChange: (build: HardwareBuild) => void
+}
+
+const STATUS_TEXT: Record<FitStatus, { label: string, className: string }> = {
+  fits: { label: 'Fits', className: 'text-green-400' },
+  'too-large': { label: 'Too large', className: 'text-red-400' },
+  unknown: { label: 'No limit listed', className: 'text-yellow-400' }
+}
+
+const parseLength = (value: string) => {
+  const length = parseFloat(value)
+  return Number.isFinite(length) && length > 0 ? length : null
+}
+
+// Hardware fit check in the corner of the 3D viewer; while it's open, the parts are drawn inside the case
+export default function ViewerClearanceControls({ enabled, build, checks, onEnabledChange, onBuildChange }: ViewerClearanceControlsProps) {
+  const update = (patch: Partial<HardwareBuild>) => onBuildChange({ ...build, ...patch })
+  const inputClasses = 'w-20 px-2 py-1 bg-gray-700 text-white rounded text-right'
+
+  return (
+    <div className="flex flex-col items-start">
+      {enabled && (
+        <div className="mb-2 w-72 bg-gray-900 bg-opacity-90 p-4 rounded-lg text-white text-sm space-y-3">
+          <p className="text-gray-400 text-xs">Enter your parts to see them inside the case.</p>
+
+          <label className="flex items-center justify-between text-gray-300">
+            GPU length
+            <span>
+              <input
+                type="number"
+                min={0}
+                value={build.gpuLengthMm ?? ''}
+                onChange={(e) => update({ gpuLengthMm: parseLength(e.target.value) })}
+                className={inputClasses}
+              />
+              <span className="ml-1 text-gray-400">mm</span>
+            </span>
+          </label>
+
+          <label className="flex items-center justify-between text-gray-300">
+            Cooler height
+            <span>
+              <input
+                type="number"
+                min={0}
+                value={build.coolerHeightMm ?? ''}
+                onChange={(e) => update({ coolerHeightMm: parseLength(e.target.value) })}
+                className={inputClasses}
+              />
+              <span className="ml-1 text-gray-400">mm</span>
+            </span>
+          </label>
+
+          <label className="flex items-center justify-between text-gray-300">
+            Radiator
+            <select
+              value={build.radiatorSizeMm ?? ''}
+              onChange={(e) => update({ radiatorSizeMm: parseLength(e.target.value) })}
+              className="px-2 py-1 bg-gray-700 text-white rounded"
+            >
+              <option value="">None</option>
+              {RADIATOR_SIZES_MM.map(size => (
+                <option key={size} value={size}>{size}mm</option>
+              ))}
+            </select>
+          </label>
+
+          {checks.length > 0 && (
+            <ul className="pt-3 border-t border-gray-700 space-y-1">
+              {checks.map(check => (
+                <li key={check.part} className="flex justify-between">
+                  <span className="text-gray-300">{check.label}</span>
+                  <span className={STATUS_TEXT[check.status].className}>
+                    {STATUS_TEXT[check.status].label}
+                    {check.limitMm !== null && ` (max ${check.limitMm}mm)`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => onEnabledChange(!enabled)}
+        className={`px-3 py-2 rounded-lg text-xs ${enabled ? 'bg-blue-600 text-white' : 'bg-gray-900 bg-opacity-80 text-gray-200 hover:bg-gray-700'}`}
+      >
+        Clearance
+      </button>
+    </div>
+  )
+}
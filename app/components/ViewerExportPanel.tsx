@@ -0,0 +1,134 @@
+'use client'
+
+import { MutableRefObject, useState } from 'react'
+import { ViewerController } from '@/app/lib/viewer'
+import {
+  CaptureBackground,
+  SNAPSHOT_SIZES,
+  TURNTABLE_SIZES,
+  downloadBlob,
+  getTurntableMimeType
+} from '@/app/lib/viewerCapture'
+
+interface ViewerExportPanelProps {
+  controllerRef: MutableRefObject<ViewerController | null>
+  // Downloads are named after this, e.g. "my-design.png"
+  fileName: string
+}
+
+const TURNTABLE_DURATIONS = [6, 10, 20]
+const TURNTABLE_FPS = 30
+
+// Renders and turntable videos of the 3D preview, for sharing a design
+export default function ViewerExportPanel({ controllerRef, fileName }: ViewerExportPanelProps) {
+  const [snapshotSize, setSnapshotSize] = useState(0)
+  const [turntableSize, setTurntableSize] = useState(0)
+  const [duration, setDuration] = useState(TURNTABLE_DURATIONS[0])
+  const [background, setBackground] = useState<CaptureBackground>('branded')
+  const [busy, setBusy] = useState<'snapshot' | 'turntable' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const canRecord = getTurntableMimeType() !== null
+
+  const run = async (kind: 'snapshot' | 'turntable', capture: (controller: ViewerController) => Promise<void>) => {
+    const controller = controllerRef.current
+    if (!controller) {
+      setError('The 3D view is still loading')
+      return
+    }
+
+    setBusy(kind)
+    setError(null)
+    try {
+      await capture(controller)
+    } catch (err) {
+      console.error(`Error exporting ${kind}:`, err)
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleSnapshot = () => run('snapshot', async controller => {
+    const { width, height } = SNAPSHOT_SIZES[snapshotSize]
+    downloadBlob(await controller.snapshot({ width, height, background }), `${fileName}.png`)
+  })
+
+  const handleTurntable = () => run('turntable', async controller => {
+    const { width, height } = TURNTABLE_SIZES[turntableSize]
+    const video = await controller.recordTurntable({ width, height, background, durationMs: duration * 1000, fps: TURNTABLE_FPS })
+    downloadBlob(video, `${fileName}-360.webm`)
+  })
+
+  const selectClasses = 'w-full px-2 py-1 bg-gray-700 text-white rounded disabled:opacity-50'
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 text-left">
+      <h3 className="text-lg font-semibold text-white mb-4">Share Your Design</h3>
+
+      <div className="mb-4">
+        <label className="block text-gray-300 text-sm mb-2">Background</label>
+        <div className="grid grid-cols-2 gap-2">
+          {(['branded', 'transparent'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setBackground(option)}
+              disabled={busy !== null}
+              className={`px-3 py-1 rounded text-sm disabled:opacity-50 ${
+                background === option ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'
+              }`}
+            >
+              {option === 'branded' ? 'Branded' : 'Transparent'}
+            </button>
+          ))}
+        </div>
+        {background === 'transparent' && (
+          <p className="text-gray-500 text-xs mt-1">Videos keep the viewer&apos;s background, since WebM can&apos;t be transparent here.</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <label className="block text-gray-300 text-sm">Image</label>
+          <select value={snapshotSize} onChange={(e) => setSnapshotSize(parseInt(e.target.value))} disabled={busy !== null} className={selectClasses}>
+            {SNAPSHOT_SIZES.map((size, index) => (
+              <option key={size.label} value={index}>{size.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSnapshot}
+            disabled={busy !== null}
+            className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy === 'snapshot' ? 'Rendering...' : 'Download PNG'}
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-gray-300 text-sm">360° Video</label>
+          <div className="grid grid-cols-2 gap-2">
+            <select value={turntableSize} onChange={(e) => setTurntableSize(parseInt(e.target.value))} disabled={busy !== null || !canRecord} className={selectClasses}>
+              {TURNTABLE_SIZES.map((size, index) => (
+                <option key={size.label} value={index}>{size.label}</option>
+              ))}
+            </select>
+            <select value={duration} onChange={(e) => setDuration(parseInt(e.target.value))} disabled={busy !== null || !canRecord} className={selectClasses}>
+              {TURNTABLE_DURATIONS.map(seconds => (
+                <option key={seconds} value={seconds}>{seconds} seconds</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={handleTurntable}
+            disabled={busy !== null || !canRecord}
+            className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy === 'turntable' ? 'Recording...' : 'Record Turntable'}
+          </button>
+          {!canRecord && <p className="text-gray-500 text-xs">This browser can&apos;t record video.</p>}
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+    </div>
+  )
+}
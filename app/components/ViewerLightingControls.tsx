@@ -0,0 +1,94 @@
+'use client'
+
+import { useState } from 'react'
+import { ENVIRONMENT_PRESETS, EnvironmentPreset, GLOW_EFFECTS, InteriorGlow } from '@/app/lib/viewerEnvironment'
+
+interface ViewerLightingControlsProps {
+  environment: EnvironmentPreset
+  glow: InteriorGlow
+  onEnvironmentChange: (environment: EnvironmentPreset) => void
+  onGlowChange: (glow: InteriorGlow) => void
+}
+
+// Lighting menu in the corner of the 3D viewer
+export default function ViewerLightingControls({ environment, glow, onEnvironmentChange, onGlowChange }: ViewerLightingControlsProps) {
+  const [open, setOpen] = useState(false)
+  const update = (patch: Partial<InteriorGlow>) => onGlowChange({ ...glow, ...patch })
+  const optionClasses = (active: boolean) => `px-2 py-1 rounded text-xs ${active ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`
+
+  return (
+    <div className="flex flex-col items-start">
+      {open && (
+        <div className="mb-2 w-64 bg-gray-900 bg-opacity-90 p-4 rounded-lg text-white text-sm space-y-4">
+          <div>
+            <label className="block text-gray-300 mb-2">Environment</label>
+            <div className="grid grid-cols-3 gap-1">
+              {ENVIRONMENT_PRESETS.map(({ preset, label }) => (
+                <button key={preset} onClick={() => onEnvironmentChange(preset)} className={optionClasses(environment === preset)}>
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center justify-between text-gray-300">
+              Interior Glow
+              <input
+                type="checkbox"
+                checked={glow.enabled}
+                onChange={(e) => update({ enabled: e.target.checked })}
+              />
+            </label>
+          </div>
+
+          {glow.enabled && (
+            <>
+              <div className="grid grid-cols-3 gap-1">
+                {GLOW_EFFECTS.map(({ effect, label }) => (
+                  <button key={effect} onClick={() => update({ effect })} className={optionClasses(glow.effect === effect)}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {glow.effect !== 'rainbow' && (
+                <div className="flex items-center justify-between">
+                  <label className="text-gray-300">Colour</label>
+                  <input
+                    type="color"
+                    value={glow.color}
+                    onChange={(e) => update({ color: e.target.value })}
+                    className="w-12 h-8 bg-transparent rounded cursor-pointer"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block text-gray-300 mb-1">Brightness</label>
+                <div className="flex items-center">
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={glow.intensity}
+                    onChange={(e) => update({ intensity: parseInt(e.target.value) })}
+                    className="w-full mr-3"
+                  />
+                  <span className="text-gray-300 w-10 text-right">{glow.intensity}%</span>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => setOpen(!open)}
+        className={`px-3 py-2 rounded-lg text-xs ${open ? 'bg-blue-600 text-white' : 'bg-gray-900 bg-opacity-80 text-gray-200 hover:bg-gray-700'}`}
+      >
+        Lighting
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+'use client'
+
+import { LoadProgress } from '@/app/lib/viewer'
+
+interface ViewerLoadStatusProps {
+  progress: LoadProgress | null
+  error: string | null
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+// Overlay for a 3D viewer while its model downloads, or when something went wrong
+export default function ViewerLoadStatus({ progress, error }: ViewerLoadStatusProps) {
+  if (error) {
+    return (
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 max-w-sm bg-red-900 bg-opacity-80 border border-red-600 rounded-lg p-3 text-red-200 text-sm">
+        {error}
+      </div>
+    )
+  }
+
+  if (!progress) return null
+
+  const percent = progress.total > 0 ? Math.min(100, Math.round((progress.loaded / progress.total) * 100)) : null
+  return (
+    <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
+      <div className="w-64 bg-gray-900 bg-opacity-80 rounded-lg p-4 text-white text-sm">
+        <div className="flex justify-between mb-2">
+          <span>Loading model{percent !== null ? `... ${percent}%` : '...'}</span>
+          {progress.loaded > 0 && (
+            <span className="text-gray-400">
+              {formatMegabytes(progress.loaded)}{progress.total > 0 ? ` / ${formatMegabytes(progress.total)}` : ''}
+            </span>
+          )}
+        </div>
+        <div className="h-2 bg-gray-700 rounded overflow-hidden">
+          <div
+            className={`h-full bg-blue-500 ${percent === null ? 'animate-pulse w-full' : ''}`}
+            style={percent !== null ? { width: `${percent}%` } : undefined}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
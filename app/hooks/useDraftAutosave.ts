@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { DesignData } from '@/app/lib/design'
+import { DesignDraft, deleteDraft, draftKey, loadDraft, saveDraft } from '@/app/lib/draftStore'
+
+interface SyncedVersion {
+  // `updatedAt` of the editor state that matches Firestore
+  updatedAt: number
+  // `updatedAt` of the Firestore document itself, null until the design is first saved
+  baseUpdatedAt: number | null
+}
+
+export interface PendingDraft {
+  draft: DesignDraft
+  // The design was saved again after this draft was started, so restoring would overwrite that save
+  outdated: boolean
+}
+
+const AUTOSAVE_DELAY_MS = 800
+
+/**
+ * Keeps the open design's unsynced changes in IndexedDB so a closed tab or
+ * dropped connection doesn't lose them. Changes are tracked against the
+ * version last loaded from or saved to Firestore.
+ */
+export function useDraftAutosave(design: DesignData | null) {
+  const [synced, setSynced] = useState<SyncedVersion | null>(null)
+  const [pendingDraft, setPendingDraft] = useState<PendingDraft | null>(null)
+  const [draftSavedAt, setDraftSavedAt] = useState<number | null>(null)
+  // Write waiting on the debounce, flushed early if the page is hidden
+  const pendingWriteRef = useRef<DesignDraft | null>(null)
+  const storedKeyRef = useRef<string | null>(null)
+
+  const key = design ? draftKey(design.userId, design.caseId, design.id) : null
+  const isDirty = !!design && !!synced && design.updatedAt !== synced.updatedAt
+
+  const writeDraft = useCallback(async (draft: DesignDraft) => {
+    try {
+      await saveDraft(draft)
+      storedKeyRef.current = draft.key
+      setDraftSavedAt(draft.savedAt)
+    } catch (error) {
+      console.error('Draft autosave error:', error)
+    }
+  }, [])
+
+  const removeDraft = useCallback((draftKeyToRemove: string) => {
+    if (storedKeyRef.current === draftKeyToRemove) {
+      storedKeyRef.current = null
+    }
+    setDraftSavedAt(null)
+    deleteDraft(draftKeyToRemove).catch(error => {
+      console.error('Error deleting draft:', error)
+    })
+  }, [])
+
+  useEffect(() => {
+    // Don't overwrite a stored draft before the user has decided what to do with it
+    if (!design || !key || !synced || pendingDraft) return
+
+    if (!isDirty) {
+      // Back at the synced version, e.g. after undo; there's nothing left to recover
+      if (storedKeyRef.current === key) {
+        removeDraft(key)
+      }
+      return
+    }
+
+    const draft: DesignDraft = {
+      key,
+      userId: design.userId,
+      caseId: design.caseId,
+      designId: design.id || null,
+      design,
+      baseUpdatedAt: synced.baseUpdatedAt,
+      savedAt: Date.now()
+    }
+    pendingWriteRef.current = draft
+
+    const timer = setTimeout(() => {
+      pendingWriteRef.current = null
+      writeDraft({ ...draft, savedAt: Date.now() })
+    }, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [design, key, synced, isDirty, pendingDraft, writeDraft, removeDraft])
+
+  useEffect(() => {
+    const flush = () => {
+      const draft = pendingWriteRef.current
+      if (document.visibilityState === 'hidden' && draft) {
+        pendingWriteRef.current = null
+        writeDraft({ ...draft, savedAt: Date.now() })
+      }
+    }
+
+    document.addEventListener('visibilitychange', flush)
+    return () => document.removeEventListener('visibilitychange', flush)
+  }, [writeDraft])
+
+  /**
+   * Starts tracking a design just loaded from Firestore (`baseUpdatedAt`) or
+   * newly created (null), and looks for a draft left over from an earlier visit.
+   */
+  const open = useCallback(async (opened: DesignData, baseUpdatedAt: number | null) => {
+    pendingWriteRef.current = null
+    storedKeyRef.current = null
+    setDraftSavedAt(null)
+    setPendingDraft(null)
+    setSynced({ updatedAt: opened.updatedAt, baseUpdatedAt })
+
+    try {
+      const draft = await loadDraft(draftKey(opened.userId, opened.caseId, opened.id))
+      if (draft) {
+        storedKeyRef.current = draft.key
+        setDraftSavedAt(draft.savedAt)
+        setPendingDraft({ draft, outdated: baseUpdatedAt !== null && draft.baseUpdatedAt !== baseUpdatedAt })
+      }
+    } catch (error) {
+      console.error('Error loading draft:', error)
+    }
+  }, [])
+
+  /** Hands back the pending draft's design; the caller applies it to the editor. */
+  const restore = useCallback(() => {
+    const design = pendingDraft?.draft.design || null
+    setPendingDraft(null)
+    return design
+  }, [pendingDraft])
+
+  const discard = useCallback(() => {
+    if (pendingDraft) {
+      removeDraft(pendingDraft.draft.key)
+    }
+    setPendingDraft(null)
+  }, [pendingDraft, removeDraft])
+
+  /**
+   * Records a successful Firestore save of the editor state stamped `updatedAt`.
+   * Call before the editor picks up a new document ID, so a new design's draft is cleared.
+   */
+  const markSaved = useCallback((updatedAt: number, baseUpdatedAt: number) => {
+    pendingWriteRef.current = null
+    if (key) {
+      removeDraft(key)
+    }
+    setSynced({ updatedAt, baseUpdatedAt })
+  }, [key, removeDraft])
+
+  return {
+    isDirty,
+    // When the current changes were last written to this device, if they have been
+    draftSavedAt: isDirty ? draftSavedAt : null,
+    pendingDraft,
+    open,
+    restore,
+    discard,
+    markSaved
+  }
+}
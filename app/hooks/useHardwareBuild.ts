@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react'
+import { BROWSER_STORAGE_PREFIX } from '@/app/lib/brand'
+import { EMPTY_HARDWARE_BUILD, HardwareBuild, normalizeHardwareBuild } from '@/app/lib/clearance'
+
+const STORAGE_KEY = `${BROWSER_STORAGE_PREFIX}-hardware-build`
+
+/**
+ * The customer's planned GPU, cooler and radiator, kept in this browser so the
+ * parts entered in the 3D viewer are checked against every case they look at.
+ */
+export function useHardwareBuild(): [HardwareBuild, (build: HardwareBuild) => void] {
+  const [build, setBuildState] = useState<HardwareBuild>(EMPTY_HARDWARE_BUILD)
+
+  // Read after mounting, since the server render has no storage
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY)
+      if (stored) {
+        setBuildState(normalizeHardwareBuild(JSON.parse(stored)))
+      }
+    } catch (error) {
+      console.error('Error reading saved hardware build:', error)
+    }
+
+    // Another tab, or the viewer on another page, changed it
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEY) return
+      try {
+        setBuildState(event.newValue ? normalizeHardwareBuild(JSON.parse(event.newValue)) : EMPTY_HARDWARE_BUILD)
+      } catch (error) {
+        console.error('Error reading saved hardware build:', error)
+      }
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  const setBuild = useCallback((next: HardwareBuild) => {
+    setBuildState(next)
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    } catch (error) {
+      // Storage can be full or disabled; the build still applies until the page closes
+      console.error('Error saving hardware build:', error)
+    }
+  }, [])
+
+  return [build, setBuild]
+}
@@ -0,0 +1,95 @@
+import { useCallback, useRef, useState } from 'react'
+
+interface HistoryState<T> {
+  past: T[]
+  present: T
+  future: T[]
+}
+
+interface SetOptions {
+  // Consecutive updates with the same key (e.g. one slider drag) become a single step
+  coalesce?: string
+  // Replace the present without creating an undo step
+  skipHistory?: boolean
+}
+
+// Updates further apart than this start a new step even with the same key
+const COALESCE_WINDOW_MS = 1000
+const MAX_HISTORY = 100
+
+export function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] })
+  const lastChangeRef = useRef<{ key: string, time: number } | null>(null)
+
+  const set = useCallback((update: T | ((current: T) => T), options: SetOptions = {}) => {
+    const now = Date.now()
+    const last = lastChangeRef.current
+    const coalesce = !!options.coalesce && last?.key === options.coalesce && now - last.time < COALESCE_WINDOW_MS
+    lastChangeRef.current = options.coalesce ? { key: options.coalesce, time: now } : null
+
+    setHistory(current => {
+      const next = typeof update === 'function' ? (update as (current: T) => T)(current.present) : update
+      if (next === current.present) {
+        return current
+      }
+      if (options.skipHistory || coalesce) {
+        return { ...current, present: next }
+      }
+      return {
+        past: [...current.past, current.present].slice(-MAX_HISTORY),
+        present: next,
+        future: []
+      }
+    })
+  }, [])
+
+  const undo = useCallback(() => {
+    lastChangeRef.current = null
+    setHistory(current => {
+      if (current.past.length === 0) return current
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future]
+      }
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    lastChangeRef.current = null
+    setHistory(current => {
+      if (current.future.length === 0) return current
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1)
+      }
+    })
+  }, [])
+
+  /** Starts a fresh history, e.g. when a different document is opened. */
+  const reset = useCallback((value: T) => {
+    lastChangeRef.current = null
+    setHistory({ past: [], present: value, future: [] })
+  }, [])
+
+  /** Applies a change to every entry, for facts that must survive undo (like a new document ID). */
+  const patchAll = useCallback((patch: (entry: T) => T) => {
+    setHistory(current => ({
+      past: current.past.map(patch),
+      present: patch(current.present),
+      future: current.future.map(patch)
+    }))
+  }, [])
+
+  return {
+    present: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    patchAll,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  }
+}
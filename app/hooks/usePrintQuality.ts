@@ -0,0 +1,46 @@
+import { useEffect, useMemo, useState } from 'react'
+import { DesignData } from '@/app/lib/design'
+import { getRasterSize, loadImage } from '@/app/lib/layerRaster'
+import { ProductPanel } from '@/app/lib/panels'
+import { LayerPrintQuality, PixelSize, getDesignPrintQuality } from '@/app/lib/printQuality'
+
+/**
+ * Live print quality of a design's image layers. Layers saved without their
+ * source size are measured by loading the image once.
+ */
+export function usePrintQuality(
+  design: DesignData | null,
+  productPanels: ProductPanel[] | undefined,
+  minDpi: number
+): LayerPrintQuality[] {
+  const [measured, setMeasured] = useState<Record<string, PixelSize>>({})
+
+  const missingUrls = Array.from(new Set((design?.panels || []).flatMap(panel => panel.layers.flatMap(layer =>
+    layer.type === 'image' && !layer.pixelSize && !measured[layer.imageUrl] ? [layer.imageUrl] : []
+  ))))
+  const missingKey = missingUrls.join('\n')
+
+  useEffect(() => {
+    if (!missingKey) return
+    let cancelled = false
+
+    missingKey.split('\n').forEach(url => {
+      loadImage(url)
+        .then(image => {
+          if (!cancelled) {
+            setMeasured(current => ({ ...current, [url]: getRasterSize(image) }))
+          }
+        })
+        .catch(error => console.error('Error measuring image:', error))
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [missingKey])
+
+  return useMemo(
+    () => design ? getDesignPrintQuality(design, productPanels, minDpi, measured) : [],
+    [design, productPanels, minDpi, measured]
+  )
+}
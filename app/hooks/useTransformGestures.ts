@@ -0,0 +1,219 @@
+import { RefObject, useCallback, useRef, useState } from 'react'
+import { DesignLayer } from '@/app/lib/design'
+
+export interface HandlePosition {
+  x: -1 | 0 | 1
+  y: -1 | 0 | 1
+}
+
+export type TransformAction = 'move' | 'rotate' | HandlePosition
+
+export type GestureKind = 'move' | 'scale' | 'rotate' | 'pinch'
+
+interface Point {
+  x: number
+  y: number
+}
+
+interface Gesture {
+  kind: GestureKind
+  layer: DesignLayer
+  handle?: HandlePosition
+  start: Point
+  // Pinch baseline, measured between the first two pointers
+  startDistance?: number
+  startAngle?: number
+}
+
+interface UseTransformGesturesOptions {
+  panelRef: RefObject<HTMLDivElement | null>
+  // Latest state of a layer, so a pinch picks up from where a drag left it
+  getLayer: (layerId: string) => DesignLayer | undefined
+  onChange: (layerId: string, patch: Partial<DesignLayer>) => void
+}
+
+const MIN_SIZE_PX = 8
+const ROTATION_SNAP_DEG = 15
+
+const normalizeDegrees = (degrees: number) => ((degrees % 360) + 360) % 360
+
+// Text boxes follow their font size, so scaling a text layer scales the font with it
+function sizePatch(layer: DesignLayer, width: number, height: number): Partial<DesignLayer> {
+  if (layer.type === 'text') {
+    return { scale: { width, height }, fontSize: layer.fontSize * (height / layer.scale.height) }
+  }
+  return { scale: { width, height } }
+}
+
+/**
+ * Pointer-driven move, scale and rotate for a layer on the panel, plus
+ * two-finger pinch/rotate on touch screens. All maths runs in panel pixels
+ * and is converted back to the panel-percent frame layers are stored in.
+ */
+export function useTransformGestures({ panelRef, getLayer, onChange }: UseTransformGesturesOptions) {
+  const gestureRef = useRef<Gesture | null>(null)
+  const pointersRef = useRef<Map<number, Point>>(new Map())
+  const [activeGesture, setActiveGesture] = useState<GestureKind | null>(null)
+
+  const toPanelPoint = useCallback((e: React.PointerEvent): Point | null => {
+    const rect = panelRef.current?.getBoundingClientRect()
+    if (!rect) return null
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }, [panelRef])
+
+  const setGesture = (gesture: Gesture | null) => {
+    gestureRef.current = gesture
+    setActiveGesture(gesture ? gesture.kind : null)
+  }
+
+  const startPinch = (current: DesignLayer) => {
+    const layer = getLayer(current.id) || current
+    const [a, b] = Array.from(pointersRef.current.values())
+    setGesture({
+      kind: 'pinch',
+      layer,
+      start: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      startDistance: Math.hypot(b.x - a.x, b.y - a.y),
+      startAngle: Math.atan2(b.y - a.y, b.x - a.x)
+    })
+  }
+
+  /** Starts a gesture from a pointer landing on a layer or one of its handles. */
+  const begin = (e: React.PointerEvent, layer: DesignLayer, action: TransformAction) => {
+    const point = toPanelPoint(e)
+    if (!point || layer.locked) return
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    pointersRef.current.set(e.pointerId, point)
+
+    const current = gestureRef.current
+    if (current && current.layer.id === layer.id && pointersRef.current.size === 2) {
+      startPinch(current.layer)
+      return
+    }
+
+    if (action === 'move') {
+      setGesture({ kind: 'move', layer, start: point })
+    } else if (action === 'rotate') {
+      setGesture({ kind: 'rotate', layer, start: point })
+    } else {
+      setGesture({ kind: 'scale', layer, start: point, handle: action })
+    }
+  }
+
+  /**
+   * A second finger anywhere on the canvas turns the current gesture into a
+   * pinch. Returns true when the pointer was taken.
+   */
+  const handleCanvasPointerDown = (e: React.PointerEvent): boolean => {
+    const current = gestureRef.current
+    const point = toPanelPoint(e)
+    if (!current || !point || pointersRef.current.size !== 1) return false
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    pointersRef.current.set(e.pointerId, point)
+    startPinch(current.layer)
+    return true
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const gesture = gestureRef.current
+    const rect = panelRef.current?.getBoundingClientRect()
+    const point = toPanelPoint(e)
+    if (!gesture || !rect || !point || !pointersRef.current.has(e.pointerId)) return
+
+    pointersRef.current.set(e.pointerId, point)
+
+    const { layer } = gesture
+    const panelWidth = rect.width
+    const panelHeight = rect.height
+    const cx = (layer.position.x / 100) * panelWidth
+    const cy = (layer.position.y / 100) * panelHeight
+    const width = (layer.scale.width / 100) * panelWidth
+    const height = (layer.scale.height / 100) * panelHeight
+    const theta = layer.rotation * Math.PI / 180
+    const cos = Math.cos(theta)
+    const sin = Math.sin(theta)
+
+    const toPercent = (x: number, y: number) => ({ x: (x / panelWidth) * 100, y: (y / panelHeight) * 100 })
+
+    if (gesture.kind === 'move') {
+      onChange(layer.id, { position: toPercent(cx + point.x - gesture.start.x, cy + point.y - gesture.start.y) })
+      return
+    }
+
+    if (gesture.kind === 'rotate') {
+      const startAngle = Math.atan2(gesture.start.y - cy, gesture.start.x - cx)
+      const angle = Math.atan2(point.y - cy, point.x - cx)
+      let rotation = layer.rotation + (angle - startAngle) * 180 / Math.PI
+      if (e.shiftKey) {
+        rotation = Math.round(rotation / ROTATION_SNAP_DEG) * ROTATION_SNAP_DEG
+      }
+      onChange(layer.id, { rotation: normalizeDegrees(rotation) })
+      return
+    }
+
+    if (gesture.kind === 'pinch') {
+      const [a, b] = Array.from(pointersRef.current.values())
+      const factor = Math.hypot(b.x - a.x, b.y - a.y) / (gesture.startDistance || 1)
+      const angle = Math.atan2(b.y - a.y, b.x - a.x)
+      const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+      const newWidth = Math.max(MIN_SIZE_PX, width * factor)
+      const newHeight = Math.max(MIN_SIZE_PX, height * factor)
+
+      onChange(layer.id, {
+        ...sizePatch(layer, (newWidth / panelWidth) * 100, (newHeight / panelHeight) * 100),
+        position: toPercent(cx + mid.x - gesture.start.x, cy + mid.y - gesture.start.y),
+        rotation: normalizeDegrees(layer.rotation + (angle - (gesture.startAngle || 0)) * 180 / Math.PI)
+      })
+      return
+    }
+
+    // Scale from a handle, keeping the opposite corner or edge pinned
+    const handle = gesture.handle as HandlePosition
+    const dx = point.x - cx
+    const dy = point.y - cy
+    const localX = dx * cos + dy * sin
+    const localY = -dx * sin + dy * cos
+    const anchorX = -handle.x * width / 2
+    const anchorY = -handle.y * height / 2
+
+    let newWidth = handle.x ? Math.max(MIN_SIZE_PX, (localX - anchorX) * handle.x) : width
+    let newHeight = handle.y ? Math.max(MIN_SIZE_PX, (localY - anchorY) * handle.y) : height
+
+    // Text always keeps its proportions; everything else does while Shift is held
+    if (e.shiftKey || layer.type === 'text') {
+      const factor = handle.x && handle.y
+        ? Math.max(newWidth / width, newHeight / height)
+        : handle.x ? newWidth / width : newHeight / height
+      newWidth = width * factor
+      newHeight = height * factor
+    }
+
+    const centerX = handle.x ? anchorX + handle.x * newWidth / 2 : 0
+    const centerY = handle.y ? anchorY + handle.y * newHeight / 2 : 0
+
+    onChange(layer.id, {
+      ...sizePatch(layer, (newWidth / panelWidth) * 100, (newHeight / panelHeight) * 100),
+      position: toPercent(cx + centerX * cos - centerY * sin, cy + centerX * sin + centerY * cos)
+    })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!pointersRef.current.delete(e.pointerId)) return
+
+    // Lifting either finger ends a pinch rather than jumping into a one-finger drag
+    if (pointersRef.current.size === 0 || gestureRef.current?.kind === 'pinch') {
+      pointersRef.current.clear()
+      setGesture(null)
+    }
+  }
+
+  return {
+    activeGesture,
+    begin,
+    handleCanvasPointerDown,
+    handlePointerMove,
+    handlePointerUp
+  }
+}
@@ -0,0 +1,5 @@
+// The storefront's name, drawn on branded renders
+export const BRAND_NAME = 'PCaseHub'
+
+// Prefixes every key and database the app keeps in the browser
+export const BROWSER_STORAGE_PREFIX = 'pcasehub'
@@ -0,0 +1,127 @@
+export type ClearancePart = 'gpu' | 'cooler' | 'radiator'
+
+/** The parts a customer plans to fit, in millimetres; null where they haven't said. */
+export interface HardwareBuild {
+  gpuLengthMm: number | null
+  coolerHeightMm: number | null
+  radiatorSizeMm: number | null
+}
+
+export const EMPTY_HARDWARE_BUILD: HardwareBuild = {
+  gpuLengthMm: null,
+  coolerHeightMm: null,
+  radiatorSizeMm: null
+}
+
+// Radiators are sold in multiples of 120mm and 140mm fans
+export const RADIATOR_SIZES_MM = [120, 140, 240, 280, 360, 420]
+
+/** A case's limits, read from the free-text specifications entered in the admin. */
+export interface CaseClearance {
+  maxGPULengthMm: number | null
+  maxCPUCoolerHeightMm: number | null
+  maxRadiatorSizeMm: number | null
+  // Largest outside dimension, for sizing parts against the 3D model
+  caseSizeMm: number | null
+}
+
+export type FitStatus = 'fits' | 'too-large' | 'unknown'
+
+export interface ClearanceCheck {
+  part: ClearancePart
+  label: string
+  sizeMm: number
+  // null when the case doesn't list this limit
+  limitMm: number | null
+  status: FitStatus
+}
+
+/** Overall verdict for a build; `unknown` when a part can't be checked but nothing is known not to fit. */
+export type Compatibility = 'compatible' | 'incompatible' | 'unknown'
+
+export const CLEARANCE_PART_LABELS: Record<ClearancePart, string> = {
+  gpu: 'Graphics card',
+  cooler: 'CPU cooler',
+  radiator: 'Radiator'
+}
+
+// Checked in order, so "360mm (14.2 in)" reads as millimetres
+const UNIT_TO_MM: Array<{ pattern: RegExp, factor: number }> = [
+  { pattern: /\d\s*mm\b/i, factor: 1 },
+  { pattern: /\d\s*cm\b/i, factor: 10 },
+  { pattern: /\d\s*(in|inch|inches)\b|\d\s*"/i, factor: 25.4 }
+]
+
+// A single-digit count times a size, as radiators are listed by their fans: "3x120mm" is 360mm.
+// Dimensions such as "453 x 230 x 466 mm" never start with a single digit.
+const FAN_MULTIPLIER = /(?<![\d.])([1-9])\s*[x×]\s*(\d+(?:\.\d+)?)/gi
+
+/**
+ * Every length in a specification such as "380mm", "38 cm", "3x120mm" or
+ * "453 x 230 x 466 mm", in millimetres. Bare numbers are taken as millimetres.
+ */
+export function parseLengthsMm(value: unknown): number[] {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? [value] : []
+  }
+  if (typeof value !== 'string') return []
+
+  const factor = UNIT_TO_MM.find(unit => unit.pattern.test(value))?.factor || 1
+  const expanded = value.replace(FAN_MULTIPLIER, (_match, count: string, size: string) => String(Number(count) * parseFloat(size)))
+  return (expanded.match(/\d+(?:\.\d+)?/g) || [])
+    .map(number => parseFloat(number) * factor)
+    .filter(length => length > 0)
+}
+
+/** The largest length in a specification, e.g. "Up to 360mm (280mm with front fans)" gives 360. */
+export function parseMaxLengthMm(value: unknown): number | null {
+  const lengths = parseLengthsMm(value)
+  return lengths.length > 0 ? Math.max(...lengths) : null
+}
+
+export function getCaseClearance(specifications: unknown): CaseClearance {
+  const specs = (specifications && typeof specifications === 'object' ? specifications : {}) as Record<string, unknown>
+  return {
+    maxGPULengthMm: parseMaxLengthMm(specs.maxGPULength),
+    maxCPUCoolerHeightMm: parseMaxLengthMm(specs.maxCPUCoolerHeight),
+    maxRadiatorSizeMm: parseMaxLengthMm(specs.maxRadiatorSize),
+    caseSizeMm: parseMaxLengthMm(specs.dimensions)
+  }
+}
+
+export function getFitStatus(sizeMm: number, limitMm: number | null): FitStatus {
+  if (limitMm === null) return 'unknown'
+  return sizeMm <= limitMm ? 'fits' : 'too-large'
+}
+
+/** How each part of the build fits the case; parts the customer left blank aren't checked. */
+export function checkClearance(clearance: CaseClearance, build: HardwareBuild): ClearanceCheck[] {
+  const parts: Array<{ part: ClearancePart, sizeMm: number | null, limitMm: number | null }> = [
+    { part: 'gpu', sizeMm: build.gpuLengthMm, limitMm: clearance.maxGPULengthMm },
+    { part: 'cooler', sizeMm: build.coolerHeightMm, limitMm: clearance.maxCPUCoolerHeightMm },
+    { part: 'radiator', sizeMm: build.radiatorSizeMm, limitMm: clearance.maxRadiatorSizeMm }
+  ]
+
+  return parts.flatMap(({ part, sizeMm, limitMm }) => sizeMm !== null && sizeMm > 0
+    ? [{ part, label: CLEARANCE_PART_LABELS[part], sizeMm, limitMm, status: getFitStatus(sizeMm, limitMm) }]
+    : []
+  )
+}
+
+/** null until the customer has entered at least one part. */
+export function getCompatibility(checks: ClearanceCheck[]): Compatibility | null {
+  if (checks.length === 0) return null
+  if (checks.some(check => check.status === 'too-large')) return 'incompatible'
+  return checks.some(check => check.status === 'unknown') ? 'unknown' : 'compatible'
+}
+
+/** Reads a build saved in the browser, dropping anything that isn't a positive length. */
+export function normalizeHardwareBuild(value: unknown): HardwareBuild {
+  const build = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+  const length = (field: unknown) => typeof field === 'number' && Number.isFinite(field) && field > 0 ? field : null
+  return {
+    gpuLengthMm: length(build.gpuLengthMm),
+    coolerHeightMm: length(build.coolerHeightMm),
+    radiatorSizeMm: length(build.radiatorSizeMm)
+  }
+}
@@ -0,0 +1,106 @@
+import * as THREE from 'three'
+import { ClearanceCheck, ClearancePart, FitStatus } from './clearance'
+
+// Assumed when a case doesn't list its dimensions: a typical mid tower's height
+const DEFAULT_CASE_SIZE_MM = 480
+
+// Stock sizes for the dimensions customers aren't asked for
+const GPU_HEIGHT_MM = 125
+const GPU_THICKNESS_MM = 50
+const COOLER_FOOTPRINT_MM = 120
+// A 27mm radiator with 25mm fans on it
+const RADIATOR_THICKNESS_MM = 52
+// Room between the parts and the case's walls
+const WALL_MM = 15
+
+const STATUS_COLORS: Record<FitStatus, number> = {
+  fits: 0x22c55e,
+  'too-large': 0xef4444,
+  unknown: 0xeab308
+}
+
+/**
+ * Where a part sits in the case and how large it is, in millimetres. The
+ * front of the case faces +z and the motherboard tray is on the right (+x),
+ * so parts stand out from the tray towards the window on the left.
+ */
+function getPartBox(part: ClearancePart, sizeMm: number, caseSizeMm: THREE.Vector3): { size: THREE.Vector3, center: THREE.Vector3 } {
+  const tray = caseSizeMm.x / 2 - WALL_MM
+  switch (part) {
+    case 'gpu':
+      // In the top slot, running from the back wall towards the front; a card too long pokes through it
+      return {
+        size: new THREE.Vector3(GPU_HEIGHT_MM, GPU_THICKNESS_MM, sizeMm),
+        center: new THREE.Vector3(tray - GPU_HEIGHT_MM / 2, -caseSizeMm.y * 0.1, -caseSizeMm.z / 2 + WALL_MM + sizeMm / 2)
+      }
+    case 'cooler':
+      // On the CPU socket, high up towards the back
+      return {
+        size: new THREE.Vector3(sizeMm, COOLER_FOOTPRINT_MM, COOLER_FOOTPRINT_MM),
+        center: new THREE.Vector3(tray - sizeMm / 2, caseSizeMm.y * 0.2, -caseSizeMm.z * 0.15)
+      }
+    case 'radiator': {
+      // Behind the front panel, fans and all
+      const width = sizeMm % 140 === 0 ? 140 : 120
+      return {
+        size: new THREE.Vector3(width, sizeMm, RADIATOR_THICKNESS_MM),
+        center: new THREE.Vector3(0, 0, caseSizeMm.z / 2 - WALL_MM - RADIATOR_THICKNESS_MM / 2)
+      }
+    }
+  }
+}
+
+/**
+ * Translucent stand-ins for the customer's parts, sized to scale inside the
+ * case and coloured by whether each one fits. They're drawn over the model,
+ * so they show through solid side panels.
+ */
+export function createClearanceBlocks(caseBox: THREE.Box3, checks: ClearanceCheck[], caseSizeMm: number | null): THREE.Group {
+  const group = new THREE.Group()
+  group.name = 'clearance-blocks'
+
+  const size = caseBox.getSize(new THREE.Vector3())
+  const center = caseBox.getCenter(new THREE.Vector3())
+  const unitsPerMm = Math.max(size.x, size.y, size.z) / (caseSizeMm || DEFAULT_CASE_SIZE_MM)
+  const caseSize = size.clone().divideScalar(unitsPerMm)
+
+  checks.forEach(check => {
+    const box = getPartBox(check.part, check.sizeMm, caseSize)
+    const color = STATUS_COLORS[check.status]
+    const geometry = new THREE.BoxGeometry(box.size.x, box.size.y, box.size.z)
+
+    const block = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: 0.35,
+      depthTest: false,
+      depthWrite: false
+    }))
+    const edges = new THREE.LineSegments(new THREE.EdgesGeometry(geometry), new THREE.LineBasicMaterial({
+      color,
+      depthTest: false
+    }))
+    block.add(edges)
+
+    block.name = `clearance-${check.part}`
+    block.scale.setScalar(unitsPerMm)
+    block.position.copy(box.center).multiplyScalar(unitsPerMm).add(center)
+    // After the model, so nothing in the case hides them
+    block.renderOrder = 10
+    edges.renderOrder = 11
+    group.add(block)
+  })
+
+  return group
+}
+
+export function disposeClearanceBlocks(group: THREE.Group) {
+  group.traverse(child => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+      const material = child.material as THREE.Material
+      child.geometry.dispose()
+      material.dispose()
+    }
+  })
+  group.removeFromParent()
+}
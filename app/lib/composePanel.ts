@@ -0,0 +1,95 @@
+import { DesignLayer, PanelDesign } from './design'
+import { LayerRaster, getRasterSize, rasterizeLayer } from './layerRaster'
+import { PanelGeometry } from './panels'
+
+export const DEFAULT_TEXTURE_SIZE = 1024
+
+/**
+ * Draws a layer's raster into its box, letterboxed like `object-contain` so
+ * the composed texture matches what the 2D designer shows.
+ */
+function drawLayer(
+  ctx: CanvasRenderingContext2D,
+  layer: DesignLayer,
+  raster: LayerRaster,
+  width: number,
+  height: number
+) {
+  const source = getRasterSize(raster)
+  const boxWidth = (layer.scale.width / 100) * width
+  const boxHeight = (layer.scale.height / 100) * height
+  const fit = Math.min(boxWidth / source.width, boxHeight / source.height)
+  const drawWidth = source.width * fit
+  const drawHeight = source.height * fit
+
+  ctx.save()
+  ctx.translate((layer.position.x / 100) * width, (layer.position.y / 100) * height)
+  ctx.rotate(layer.rotation * Math.PI / 180)
+  ctx.drawImage(raster, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight)
+  ctx.restore()
+}
+
+// Nothing is etched outside the outline or inside a no-etch zone
+function maskToGeometry(ctx: CanvasRenderingContext2D, geometry: PanelGeometry, scale: number) {
+  ctx.save()
+  ctx.globalCompositeOperation = 'destination-in'
+  ctx.beginPath()
+  ctx.roundRect(0, 0, geometry.width * scale, geometry.height * scale, geometry.cornerRadius * scale)
+  ctx.fill()
+
+  ctx.globalCompositeOperation = 'destination-out'
+  geometry.noEtchZones.forEach(zone => {
+    ctx.beginPath()
+    if (zone.shape === 'circle') {
+      ctx.arc(zone.x * scale, zone.y * scale, zone.radius * scale, 0, Math.PI * 2)
+    } else {
+      ctx.rect(zone.x * scale, zone.y * scale, zone.width * scale, zone.height * scale)
+    }
+    ctx.fill()
+  })
+  ctx.restore()
+}
+
+/**
+ * Flattens a panel's visible layers, bottom to top, into a single canvas with
+ * the panel's proportions and `maxSize` pixels along its long edge, masked to
+ * the panel's outline and no-etch zones.
+ */
+export async function composePanel(
+  panel: PanelDesign,
+  geometry: PanelGeometry,
+  maxSize = DEFAULT_TEXTURE_SIZE
+): Promise<HTMLCanvasElement> {
+  const fit = maxSize / Math.max(geometry.width, geometry.height)
+  const width = Math.round(geometry.width * fit)
+  const height = Math.round(geometry.height * fit)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+
+  const visibleLayers = panel.layers.filter(layer => layer.visible)
+  const rasters = await Promise.all(visibleLayers.map(async layer => {
+    try {
+      return await rasterizeLayer(layer, geometry)
+    } catch (err) {
+      console.error(`Skipping layer ${layer.name}:`, err)
+      return null
+    }
+  }))
+
+  visibleLayers.forEach((layer, index) => {
+    const raster = rasters[index]
+    if (raster) {
+      drawLayer(ctx, layer, raster, width, height)
+    }
+  })
+
+  maskToGeometry(ctx, geometry, fit)
+  return canvas
+}
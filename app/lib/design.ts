@@ -0,0 +1,236 @@
+import type { EtchProcessing } from './etchProcessing'
+import type { ImageFilters } from './imageFilters'
+import type { SvgViewBox } from './svg'
+
+// Identifies a panel within its product, e.g. 'back', 'glass' or 'front'; products list the ones they offer
+export type PanelType = string
+
+/**
+ * Layer transforms live in the panel's own frame: `position` is the layer
+ * centre and `scale` its box size, both as a percentage of the panel's width
+ * and height. The 2D designer and the 3D texture both resolve against it.
+ */
+export interface LayerTransform {
+  position: { x: number, y: number }
+  scale: { width: number, height: number }
+  rotation: number
+}
+
+interface BaseLayer extends LayerTransform {
+  id: string
+  name: string
+  visible: boolean
+  locked: boolean
+  // How the artwork is converted for the laser; absent means shown as-is
+  processing?: EtchProcessing
+}
+
+export interface ImageLayer extends BaseLayer {
+  type: 'image'
+  imageUrl: string
+  // Source resolution, for print quality checks; missing on layers uploaded before it was recorded
+  pixelSize?: { width: number, height: number }
+  // Line-art stylization of the original upload, which stays untouched in Storage
+  filters?: ImageFilters
+}
+
+export type TextAlign = 'left' | 'center' | 'right'
+
+export interface TextLayer extends BaseLayer {
+  type: 'text'
+  text: string
+  fontId: string
+  // Size of one em, as a percentage of the panel height
+  fontSize: number
+  // Extra space between letters, in em
+  letterSpacing: number
+  align: TextAlign
+  // Degrees of arc the text is bent around; positive arches up, negative dips down
+  curve: number
+  style: 'fill' | 'outline'
+  // Outline thickness in em, only used by the outline style
+  strokeWidth: number
+}
+
+export interface VectorLayer extends BaseLayer {
+  type: 'vector'
+  // Sanitized, self-contained SVG markup; kept as paths for lossless production output
+  svg: string
+  viewBox: SvgViewBox
+}
+
+export type DesignLayer = ImageLayer | TextLayer | VectorLayer
+
+export interface PanelDesign {
+  panelType: PanelType
+  // Ordered bottom to top
+  layers: DesignLayer[]
+}
+
+export interface DesignData {
+  id?: string
+  userId: string
+  caseId: string
+  name: string
+  panels: PanelDesign[]
+  // Small preview for the design picker, refreshed on every save
+  thumbnailUrl?: string
+  createdAt: number
+  updatedAt: number
+}
+
+// Panels saved before layers existed carried a single image in pixel units
+interface LegacyPanelDesign {
+  panelType: PanelType
+  imageUrl?: string
+  position: { x: number, y: number }
+  scale: { width: number, height: number }
+  rotation: number
+}
+
+// Height of the old fixed-size designer canvas, used to convert legacy pixel sizes
+const LEGACY_CANVAS_PX = 600
+
+export function createLayerId(): string {
+  return `layer_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function createImageLayer(
+  imageUrl: string,
+  name: string,
+  transform?: Partial<LayerTransform>,
+  pixelSize?: { width: number, height: number }
+): ImageLayer {
+  return {
+    id: createLayerId(),
+    type: 'image',
+    name,
+    imageUrl,
+    ...(pixelSize && { pixelSize }),
+    visible: true,
+    locked: false,
+    position: { x: 50, y: 50 },
+    scale: { width: 40, height: 40 },
+    rotation: 0,
+    ...transform
+  }
+}
+
+export function createTextLayer(fontId: string, transform?: Partial<LayerTransform>): TextLayer {
+  return {
+    id: createLayerId(),
+    type: 'text',
+    name: 'Text',
+    text: 'Your text',
+    fontId,
+    fontSize: 8,
+    letterSpacing: 0,
+    align: 'center',
+    curve: 0,
+    style: 'fill',
+    strokeWidth: 0.04,
+    visible: true,
+    locked: false,
+    position: { x: 50, y: 50 },
+    scale: { width: 40, height: 10 },
+    rotation: 0,
+    ...transform
+  }
+}
+
+export function createVectorLayer(svg: string, viewBox: SvgViewBox, name: string, transform?: Partial<LayerTransform>): VectorLayer {
+  return {
+    id: createLayerId(),
+    type: 'vector',
+    name,
+    svg,
+    viewBox,
+    visible: true,
+    locked: false,
+    position: { x: 50, y: 50 },
+    scale: { width: 40, height: 40 },
+    rotation: 0,
+    ...transform
+  }
+}
+
+export function createEmptyPanel(panelType: PanelType): PanelDesign {
+  return { panelType, layers: [] }
+}
+
+export function normalizePanel(panel: PanelDesign | LegacyPanelDesign): PanelDesign {
+  if ('layers' in panel && Array.isArray(panel.layers)) {
+    return panel
+  }
+
+  const legacy = panel as LegacyPanelDesign
+  const layers: DesignLayer[] = []
+
+  if (legacy.imageUrl) {
+    layers.push(createImageLayer(legacy.imageUrl, 'Image', {
+      position: legacy.position,
+      scale: {
+        width: (legacy.scale.width / LEGACY_CANVAS_PX) * 100,
+        height: (legacy.scale.height / LEGACY_CANVAS_PX) * 100
+      },
+      rotation: legacy.rotation
+    }))
+  }
+
+  return { panelType: legacy.panelType, layers }
+}
+
+export function createDesign(userId: string, caseId: string, name: string, panelTypes: PanelType[]): DesignData {
+  return {
+    userId,
+    caseId,
+    name,
+    panels: panelTypes.map(panelType => createEmptyPanel(panelType)),
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+  }
+}
+
+/** Upgrades a design document from Firestore to the current shape. */
+export function normalizeDesign(data: DesignData): DesignData {
+  return { ...data, panels: data.panels.map(panel => normalizePanel(panel)) }
+}
+
+/**
+ * Gives a design one panel per product panel, in the product's order. Panels
+ * the product has since dropped keep their layers at the end, unshown.
+ */
+export function alignDesignPanels(design: DesignData, panelTypes: PanelType[]): DesignData {
+  const panels = panelTypes.map(panelType => design.panels.find(p => p.panelType === panelType) || createEmptyPanel(panelType))
+  const retired = design.panels.filter(panel => !panelTypes.includes(panel.panelType) && panel.layers.length > 0)
+  return { ...design, panels: [...panels, ...retired] }
+}
+
+export function hasVisibleLayers(panel: PanelDesign): boolean {
+  return panel.layers.some(layer => layer.visible)
+}
+
+export function updateLayerInPanel(panel: PanelDesign, layerId: string, patch: Partial<DesignLayer>): PanelDesign {
+  return {
+    ...panel,
+    layers: panel.layers.map(layer => layer.id === layerId ? { ...layer, ...patch } as DesignLayer : layer)
+  }
+}
+
+export function removeLayerFromPanel(panel: PanelDesign, layerId: string): PanelDesign {
+  return { ...panel, layers: panel.layers.filter(layer => layer.id !== layerId) }
+}
+
+/** Moves a layer one step up (towards the top of the stack) or down. */
+export function moveLayerInPanel(panel: PanelDesign, layerId: string, direction: 'up' | 'down'): PanelDesign {
+  const index = panel.layers.findIndex(layer => layer.id === layerId)
+  const target = direction === 'up' ? index + 1 : index - 1
+  if (index === -1 || target < 0 || target >= panel.layers.length) {
+    return panel
+  }
+
+  const layers = [...panel.layers]
+  const [layer] = layers.splice(index, 1)
+  layers.splice(target, 0, layer)
+  return { ...panel, layers }
+}
@@ -0,0 +1,99 @@
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, query, setDoc, updateDoc, where } from 'firebase/firestore'
+import { deleteObject, getDownloadURL, ref, uploadBytes } from 'firebase/storage'
+import { db, storage } from './firebase'
+import { composePanel } from './composePanel'
+import { DesignData, hasVisibleLayers, normalizeDesign } from './design'
+import { ProductPanel, getPanelGeometry } from './panels'
+
+const THUMBNAIL_SIZE = 320
+const THUMBNAIL_BACKGROUND = '#222'
+
+const thumbnailPath = (design: DesignData & { id: string }) => `designs/${design.userId}/thumbnails/${design.id}.jpg`
+
+/** All of a user's designs for one case, most recently edited first. */
+export async function listDesigns(userId: string, caseId: string): Promise<DesignData[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'designs'),
+    where('userId', '==', userId),
+    where('caseId', '==', caseId)
+  ))
+
+  return snapshot.docs
+    .map(designDoc => normalizeDesign({ ...designDoc.data() as DesignData, id: designDoc.id }))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function loadDesign(designId: string): Promise<DesignData | null> {
+  const designDoc = await getDoc(doc(db, 'designs', designId))
+  return designDoc.exists() ? normalizeDesign({ ...designDoc.data() as DesignData, id: designDoc.id }) : null
+}
+
+/** Creates or overwrites a design document and returns it with its ID. */
+export async function saveDesign(design: DesignData): Promise<DesignData & { id: string }> {
+  const { id, ...data } = design
+  const saved = { ...data, updatedAt: Date.now() }
+
+  if (id) {
+    await setDoc(doc(db, 'designs', id), saved)
+    return { ...saved, id }
+  }
+
+  const designRef = await addDoc(collection(db, 'designs'), saved)
+  return { ...saved, id: designRef.id }
+}
+
+export async function renameDesign(designId: string, name: string): Promise<void> {
+  await updateDoc(doc(db, 'designs', designId), { name, updatedAt: Date.now() })
+}
+
+export async function duplicateDesign(design: DesignData, name: string): Promise<DesignData & { id: string }> {
+  const copy: DesignData = { ...design, name, createdAt: Date.now() }
+  delete copy.id
+  // The thumbnail file belongs to the original, so the copy gets its own on first render
+  delete copy.thumbnailUrl
+  return saveDesign(copy)
+}
+
+export async function deleteDesign(design: DesignData & { id: string }): Promise<void> {
+  await deleteDoc(doc(db, 'designs', design.id))
+
+  if (design.thumbnailUrl) {
+    try {
+      await deleteObject(ref(storage, thumbnailPath(design)))
+    } catch (error) {
+      console.error('Error deleting design thumbnail:', error)
+    }
+  }
+}
+
+// First panel with artwork, drawn over the panel colour so light etches stay visible
+async function renderThumbnail(design: DesignData, productPanels?: ProductPanel[]): Promise<Blob> {
+  const panel = design.panels.find(hasVisibleLayers) || design.panels[0]
+  const composed = await composePanel(panel, getPanelGeometry(productPanels, panel.panelType), THUMBNAIL_SIZE)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = composed.width
+  canvas.height = composed.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+
+  ctx.fillStyle = THUMBNAIL_BACKGROUND
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.drawImage(composed, 0, 0)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode thumbnail')), 'image/jpeg', 0.8)
+  })
+}
+
+/** Renders, uploads and records a design's picker thumbnail, returning its URL. */
+export async function saveDesignThumbnail(design: DesignData & { id: string }, productPanels?: ProductPanel[]): Promise<string> {
+  const thumbnailRef = ref(storage, thumbnailPath(design))
+  await uploadBytes(thumbnailRef, await renderThumbnail(design, productPanels))
+  // Cache-bust, since the file is overwritten in place on every save
+  const thumbnailUrl = `${await getDownloadURL(thumbnailRef)}&v=${Date.now()}`
+  await updateDoc(doc(db, 'designs', design.id), { thumbnailUrl })
+  return thumbnailUrl
+}
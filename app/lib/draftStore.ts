@@ -0,0 +1,74 @@
+import { BROWSER_STORAGE_PREFIX } from './brand'
+import { DesignData, normalizeDesign } from './design'
+
+const DB_NAME = `${BROWSER_STORAGE_PREFIX}-drafts`
+const DB_VERSION = 1
+const STORE = 'designDrafts'
+
+/** Unsynced editor state kept on this device until the design is saved to Firestore. */
+export interface DesignDraft {
+  key: string
+  userId: string
+  caseId: string
+  // Null for a design that has never been saved
+  designId: string | null
+  design: DesignData
+  // `updatedAt` of the Firestore document the draft was edited from, to spot saves made elsewhere
+  baseUpdatedAt: number | null
+  savedAt: number
+}
+
+export const draftKey = (userId: string, caseId: string, designId?: string | null) => `${userId}/${caseId}/${designId || 'new'}`
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call retry, e.g. after the user leaves private browsing
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function saveDraft(draft: DesignDraft): Promise<void> {
+  await run('readwrite', store => store.put(draft))
+}
+
+export async function loadDraft(key: string): Promise<DesignDraft | null> {
+  const draft = await run<DesignDraft | undefined>('readonly', store => store.get(key))
+  return draft ? { ...draft, design: normalizeDesign(draft.design) } : null
+}
+
+export async function deleteDraft(key: string): Promise<void> {
+  await run('readwrite', store => store.delete(key))
+}
+
+/** All of a user's drafts for one case, including an unsaved new design's. */
+export async function listDrafts(userId: string, caseId: string): Promise<DesignDraft[]> {
+  const drafts = await run<DesignDraft[]>('readonly', store => store.getAll())
+  return drafts.filter(draft => draft.userId === userId && draft.caseId === caseId)
+}
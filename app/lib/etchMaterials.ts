@@ -0,0 +1,132 @@
+import * as THREE from 'three'
+import { PanelSurface } from './panels'
+
+// Powder coat on steel; etching burns through it to the bare, brighter metal
+const METAL = {
+  coatColor: [28, 28, 30],
+  bareColor: [186, 186, 190],
+  coatRoughness: 0.6,
+  bareRoughness: 0.35,
+  coatMetalness: 0.15,
+  bareMetalness: 0.9,
+  // Etched areas sit a fraction of a millimetre below the coat
+  bumpScale: 0.6
+}
+
+// Tempered glass; etching frosts it, scattering light instead of letting it through
+const GLASS = {
+  clearRoughness: 0.05,
+  frostedRoughness: 0.75,
+  clearTransmission: 1,
+  frostedTransmission: 0.35,
+  ior: 1.5,
+  thickness: 0.02,
+  bumpScale: 0.2
+}
+
+/** How deeply each pixel of a composed design is etched (0-1), read from its alpha. */
+function readEtchDepth(design: HTMLCanvasElement): Float32Array {
+  const ctx = design.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+  const { data } = ctx.getImageData(0, 0, design.width, design.height)
+  const depth = new Float32Array(design.width * design.height)
+  for (let i = 0; i < depth.length; i++) {
+    depth[i] = data[i * 4 + 3] / 255
+  }
+  return depth
+}
+
+// One texture the size of the design, coloured per pixel from its etch depth
+function createDepthTexture(
+  design: HTMLCanvasElement,
+  depth: Float32Array,
+  colorAt: (depth: number) => [number, number, number],
+  colorSpace: THREE.ColorSpace = THREE.NoColorSpace
+): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas')
+  canvas.width = design.width
+  canvas.height = design.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+
+  const image = ctx.createImageData(canvas.width, canvas.height)
+  for (let i = 0; i < depth.length; i++) {
+    const [r, g, b] = colorAt(depth[i])
+    image.data[i * 4] = r
+    image.data[i * 4 + 1] = g
+    image.data[i * 4 + 2] = b
+    image.data[i * 4 + 3] = 255
+  }
+  ctx.putImageData(image, 0, 0)
+
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.colorSpace = colorSpace
+  return texture
+}
+
+const mix = (from: number, to: number, amount: number) => from + (to - from) * amount
+const grey = (value: number): [number, number, number] => {
+  const level = Math.round(value * 255)
+  return [level, level, level]
+}
+
+// Lower where etched, so bump mapping lights the engraving's edges
+const bumpAt = (depth: number) => grey(1 - depth)
+
+/**
+ * Builds the 3D preview material for a panel from its composed design, whose
+ * alpha is how deeply each point is etched. Metal shows bare steel through the
+ * coat; glass stays clear but turns frosted and rough where etched, so the
+ * case interior shows through everything else.
+ */
+export function createEtchedMaterial(surface: PanelSurface, design: HTMLCanvasElement): THREE.MeshStandardMaterial {
+  const depth = readEtchDepth(design)
+  const bumpMap = createDepthTexture(design, depth, bumpAt)
+
+  if (surface === 'glass') {
+    const material = new THREE.MeshPhysicalMaterial({
+      color: 0xffffff,
+      metalness: 0,
+      roughness: 1,
+      roughnessMap: createDepthTexture(design, depth, d => grey(mix(GLASS.clearRoughness, GLASS.frostedRoughness, d))),
+      transmission: 1,
+      transmissionMap: createDepthTexture(design, depth, d => grey(mix(GLASS.clearTransmission, GLASS.frostedTransmission, d))),
+      ior: GLASS.ior,
+      thickness: GLASS.thickness,
+      bumpMap,
+      bumpScale: GLASS.bumpScale,
+      side: THREE.DoubleSide
+    })
+    material.userData.isEtchMaterial = true
+    return material
+  }
+
+  const material = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    map: createDepthTexture(design, depth, d => [0, 1, 2].map(
+      channel => Math.round(mix(METAL.coatColor[channel], METAL.bareColor[channel], d))
+    ) as [number, number, number], THREE.SRGBColorSpace),
+    roughness: 1,
+    roughnessMap: createDepthTexture(design, depth, d => grey(mix(METAL.coatRoughness, METAL.bareRoughness, d))),
+    metalness: 1,
+    metalnessMap: createDepthTexture(design, depth, d => grey(mix(METAL.coatMetalness, METAL.bareMetalness, d))),
+    bumpMap,
+    bumpScale: METAL.bumpScale,
+    side: THREE.DoubleSide
+  })
+  material.userData.isEtchMaterial = true
+  return material
+}
+
+/** Frees a material made by `createEtchedMaterial` along with its textures; others are left alone. */
+export function disposeEtchedMaterial(material: THREE.Material) {
+  if (!material.userData.isEtchMaterial) return
+  Object.values(material).forEach(value => {
+    if (value instanceof THREE.Texture) value.dispose()
+  })
+  material.dispose()
+}
@@ -0,0 +1,150 @@
+export type EtchMode = 'none' | 'grayscale' | 'threshold' | 'floyd-steinberg' | 'atkinson' | 'halftone'
+
+export interface EtchProcessing {
+  mode: EtchMode
+  // Luminance cut-off (0-255); darker pixels are etched
+  threshold: number
+  // Halftone screen frequency in lines per inch
+  lpi: number
+  // Etch the light areas instead of the dark ones
+  invert: boolean
+}
+
+export const ETCH_MODES: Array<{ mode: EtchMode, label: string }> = [
+  { mode: 'none', label: 'Original' },
+  { mode: 'grayscale', label: 'Grayscale' },
+  { mode: 'threshold', label: 'Threshold' },
+  { mode: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { mode: 'atkinson', label: 'Atkinson' },
+  { mode: 'halftone', label: 'Halftone' }
+]
+
+export const DEFAULT_ETCH_PROCESSING: EtchProcessing = {
+  mode: 'none',
+  threshold: 128,
+  lpi: 60,
+  invert: false
+}
+
+// Grey level the laser's burn is previewed in; unburnt pixels are left transparent
+export const ETCH_INK_LEVEL = 245
+const HALFTONE_ANGLE = Math.PI / 4
+
+/**
+ * Per-pixel etch darkness in 0..1. Transparent pixels count as unetched
+ * background, so artwork without a backdrop doesn't burn a solid rectangle.
+ */
+function toDarkness(data: Uint8ClampedArray, invert: boolean): Float32Array {
+  const darkness = new Float32Array(data.length / 4)
+  for (let i = 0; i < darkness.length; i++) {
+    const r = data[i * 4]
+    const g = data[i * 4 + 1]
+    const b = data[i * 4 + 2]
+    const alpha = data[i * 4 + 3] / 255
+    const luma = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255
+    darkness[i] = alpha * (invert ? luma : 1 - luma)
+  }
+  return darkness
+}
+
+function diffuseError(
+  darkness: Float32Array,
+  width: number,
+  height: number,
+  cutoff: number,
+  kernel: Array<[number, number, number]>
+): Uint8Array {
+  const values = Float32Array.from(darkness)
+  const etched = new Uint8Array(values.length)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const on = values[i] >= cutoff ? 1 : 0
+      etched[i] = on
+      const error = values[i] - on
+
+      kernel.forEach(([dx, dy, weight]) => {
+        const nx = x + dx
+        const ny = y + dy
+        if (nx >= 0 && nx < width && ny < height) {
+          values[ny * width + nx] += error * weight
+        }
+      })
+    }
+  }
+
+  return etched
+}
+
+const FLOYD_STEINBERG: Array<[number, number, number]> = [
+  [1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]
+]
+
+// Atkinson only spreads 6/8 of the error, which keeps highlights and shadows crisp
+const ATKINSON: Array<[number, number, number]> = [
+  [1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8]
+]
+
+// Clustered-dot screen: each cell holds a round dot whose area tracks the darkness
+function halftone(darkness: Float32Array, width: number, height: number, cellPx: number): Uint8Array {
+  const etched = new Uint8Array(darkness.length)
+  const cos = Math.cos(HALFTONE_ANGLE)
+  const sin = Math.sin(HALFTONE_ANGLE)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const u = (x * cos + y * sin) / cellPx
+      const v = (-x * sin + y * cos) / cellPx
+      const du = u - Math.floor(u) - 0.5
+      const dv = v - Math.floor(v) - 0.5
+      const radius = Math.sqrt(darkness[i] / Math.PI)
+      etched[i] = du * du + dv * dv < radius * radius ? 1 : 0
+    }
+  }
+
+  return etched
+}
+
+/**
+ * Converts an image to what the laser will receive. `pixelsPerInch` is the
+ * resolution the image will be etched at, which sets the halftone cell size.
+ */
+export function processEtchImage(image: ImageData, processing: EtchProcessing, pixelsPerInch: number): ImageData {
+  const { width, height } = image
+  const output = new ImageData(width, height)
+  if (processing.mode === 'none') {
+    output.data.set(image.data)
+    return output
+  }
+
+  const darkness = toDarkness(image.data, processing.invert)
+  const cutoff = 1 - processing.threshold / 255
+
+  let etched: Uint8Array | null = null
+  switch (processing.mode) {
+    case 'threshold':
+      etched = Uint8Array.from(darkness, value => (value >= cutoff ? 1 : 0))
+      break
+    case 'floyd-steinberg':
+      etched = diffuseError(darkness, width, height, cutoff, FLOYD_STEINBERG)
+      break
+    case 'atkinson':
+      etched = diffuseError(darkness, width, height, cutoff, ATKINSON)
+      break
+    case 'halftone':
+      etched = halftone(darkness, width, height, Math.max(2, pixelsPerInch / Math.max(1, processing.lpi)))
+      break
+  }
+
+  for (let i = 0; i < darkness.length; i++) {
+    output.data[i * 4] = ETCH_INK_LEVEL
+    output.data[i * 4 + 1] = ETCH_INK_LEVEL
+    output.data[i * 4 + 2] = ETCH_INK_LEVEL
+    // Grayscale keeps continuous tone for power-modulated engraving
+    output.data[i * 4 + 3] = etched ? etched[i] * 255 : Math.round(darkness[i] * 255)
+  }
+
+  return output
+}
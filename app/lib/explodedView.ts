@@ -0,0 +1,60 @@
+import * as THREE from 'three'
+import { PanelType } from './design'
+import { getPanelFrame } from './panelProjection'
+
+/** One of the product's panels, with where each of its meshes rests and how far it moves out. */
+export interface ExplodedPanel {
+  panelType: PanelType
+  meshes: Array<{ mesh: THREE.Mesh, rest: THREE.Vector3, offset: THREE.Vector3 }>
+  // Centre of the panel at rest, and how far it moves when fully exploded, in scene space
+  center: THREE.Vector3
+  offset: THREE.Vector3
+}
+
+/**
+ * Works out the exploded view from the meshes found for each panel: every
+ * panel moves `distance` scene units straight out of its face, its meshes
+ * together so a panel modelled in pieces stays whole. Nothing is moved yet.
+ */
+export function getExplodedPanels(
+  panelMeshes: Record<PanelType, THREE.Mesh[]>,
+  modelCenter: THREE.Vector3,
+  distance: number
+): ExplodedPanel[] {
+  return Object.entries(panelMeshes).flatMap(([panelType, meshes]) => {
+    if (meshes.length === 0) return []
+
+    const box = new THREE.Box3()
+    meshes.forEach(mesh => box.expandByObject(mesh))
+    const { normal } = getPanelFrame(box, modelCenter)
+    const center = box.getCenter(new THREE.Vector3())
+    const worldOffset = normal.clone().multiplyScalar(distance)
+
+    return [{
+      panelType,
+      center,
+      offset: worldOffset,
+      meshes: meshes.map(mesh => {
+        const rest = mesh.position.clone()
+        if (!mesh.parent) return { mesh, rest, offset: worldOffset.clone() }
+        // The same move in the mesh's parent's space, which may be scaled or turned
+        mesh.parent.updateWorldMatrix(true, false)
+        const from = mesh.parent.worldToLocal(center.clone())
+        const to = mesh.parent.worldToLocal(center.clone().add(worldOffset))
+        return { mesh, rest, offset: to.sub(from) }
+      })
+    }]
+  })
+}
+
+/** Moves the panels part of the way out: 0 is assembled, 1 fully exploded. */
+export function setExplodeProgress(panels: ExplodedPanel[], progress: number) {
+  panels.forEach(panel => panel.meshes.forEach(({ mesh, rest, offset }) => {
+    mesh.position.copy(rest).addScaledVector(offset, progress)
+  }))
+}
+
+/** Where a panel's centre is at some point in the explosion, e.g. for its label. */
+export function getExplodedCenter(panel: ExplodedPanel, progress: number): THREE.Vector3 {
+  return panel.center.clone().addScaledVector(panel.offset, progress)
+}
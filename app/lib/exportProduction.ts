@@ -0,0 +1,674 @@
+import { DesignData, DesignLayer, ImageLayer, PanelDesign, TextLayer, VectorLayer } from './design'
+import { ETCH_MODES } from './etchProcessing'
+import { getFontLabel } from './fontFaces'
+import { describeImageFilters, hasImageFilters } from './imageFilters'
+import { NoEtchZone, ProductPanel, findLayerConflicts } from './panels'
+import { cleanSvgMarkup } from './svg'
+import { Point, flattenSvg } from './svgPaths'
+
+export type ProductionFormat = 'svg' | 'dxf'
+
+export interface ProductionJob {
+  orderId: string
+  design: DesignData
+  panel: PanelDesign
+  // Geometry and material of the panel being cut
+  productPanel: ProductPanel
+  // Image layers as the laser receives them, after stylizing and etch processing,
+  // as PNG data URLs keyed by layer ID; see `rasterizeLayerForProduction`
+  images?: Record<string, string>
+}
+
+// Blank border around the panel that holds the registration marks and header
+const SHEET_MARGIN_MM = 15
+// Crosshairs sit just outside each corner of the outline
+const MARK_OFFSET_MM = 7
+const MARK_SIZE_MM = 5
+const HAIRLINE_MM = 0.1
+// Match the designer's text layout: line pitch and the share of an em above the baseline
+const TEXT_LINE_HEIGHT = 1.2
+const TEXT_ASCENT = 0.8
+const MAX_CURVE_DEG = 359.9
+
+// Colours double as operator layers in laser software: only black is etched
+const COLORS = {
+  artwork: '#000000',
+  outline: '#0000ff',
+  noEtch: '#00a000',
+  registration: '#ff0000'
+}
+
+const fmt = (value: number) => String(Math.round(value * 1000) / 1000)
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+interface LayerFrame {
+  cx: number
+  cy: number
+  width: number
+  height: number
+  rotation: number
+}
+
+// A layer's box in panel millimetres
+function layerFrame(layer: DesignLayer, productPanel: ProductPanel): LayerFrame {
+  return {
+    cx: (layer.position.x / 100) * productPanel.width,
+    cy: (layer.position.y / 100) * productPanel.height,
+    width: (layer.scale.width / 100) * productPanel.width,
+    height: (layer.scale.height / 100) * productPanel.height,
+    rotation: layer.rotation
+  }
+}
+
+// Maps a point in a layer's own frame (origin at its centre, y down) onto the panel
+function toPanel(frame: LayerFrame, point: Point): Point {
+  const theta = frame.rotation * Math.PI / 180
+  const cos = Math.cos(theta)
+  const sin = Math.sin(theta)
+  return {
+    x: frame.cx + point.x * cos - point.y * sin,
+    y: frame.cy + point.x * sin + point.y * cos
+  }
+}
+
+/** Key facts printed into every file so a job can be matched to its order at the machine. */
+export function productionMetadata(job: ProductionJob): Array<[string, string]> {
+  const { productPanel } = job
+  return [
+    ['Order', job.orderId],
+    ['Design', `${job.design.name}${job.design.id ? ` (${job.design.id})` : ''}`],
+    ['Panel', productPanel.label],
+    ['Material', productPanel.material],
+    ['Size', `${fmt(productPanel.width)} x ${fmt(productPanel.height)} mm`],
+    ['Generated', new Date().toISOString()]
+  ]
+}
+
+export function productionFileName(job: ProductionJob, format: ProductionFormat): string {
+  const safe = (value: string) => value.replace(/[^\w-]+/g, '-')
+  return `${safe(job.orderId)}-${safe(job.productPanel.panelType)}.${format}`
+}
+
+interface TextLine {
+  text: string
+  x: number
+  y: number
+  anchor: 'start' | 'middle' | 'end'
+}
+
+interface TextArc {
+  radius: number
+  // Sweep in radians and its sign (positive arches up)
+  theta: number
+  direction: 1 | -1
+  // Baseline y of the arc's middle, in the layer frame
+  apexY: number
+}
+
+const emSize = (layer: TextLayer, productPanel: ProductPanel) => (layer.fontSize / 100) * productPanel.height
+
+// Straight text as baselines in the layer frame, stacked and centred in the box
+function layoutTextLines(layer: TextLayer, frame: LayerFrame, em: number): TextLine[] {
+  const lines = layer.text.split('\n')
+  const blockHeight = (lines.length - 1) * TEXT_LINE_HEIGHT * em + em
+  const firstBaseline = -blockHeight / 2 + TEXT_ASCENT * em
+  const x = layer.align === 'left' ? -frame.width / 2 : layer.align === 'right' ? frame.width / 2 : 0
+  const anchor = layer.align === 'left' ? 'start' : layer.align === 'right' ? 'end' : 'middle'
+  return lines.map((text, index) => ({ text, x, y: firstBaseline + index * TEXT_LINE_HEIGHT * em, anchor }))
+}
+
+/**
+ * Curved text as an arc in the layer frame. Glyph widths aren't known here,
+ * so the radius is recovered from the box: the arc's chord (or diameter, past
+ * a half circle) plus roughly one em of glyph overhang.
+ */
+function layoutTextArc(layer: TextLayer, frame: LayerFrame, em: number): TextArc {
+  const theta = Math.min(Math.abs(layer.curve), MAX_CURVE_DEG) * Math.PI / 180
+  const span = Math.max(em, frame.width - em)
+  const radius = theta <= Math.PI ? span / (2 * Math.sin(theta / 2)) : span / 2
+  const sagitta = radius * (1 - Math.cos(Math.min(theta, Math.PI) / 2))
+  const direction = layer.curve > 0 ? 1 : -1
+  const apexY = direction > 0 ? (TEXT_ASCENT * em - sagitta) / 2 : (sagitta + TEXT_ASCENT * em) / 2
+  return { radius, theta, direction, apexY }
+}
+
+// Point on the arc at angle `phi` from its middle
+function arcPoint(arc: TextArc, phi: number): Point {
+  return {
+    x: arc.radius * Math.sin(phi),
+    y: arc.apexY + arc.direction * (arc.radius - arc.radius * Math.cos(phi))
+  }
+}
+
+function roundedRectPath(width: number, height: number, radius: number): string {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2))
+  if (r === 0) {
+    return `M0 0H${fmt(width)}V${fmt(height)}H0Z`
+  }
+  return [
+    `M${fmt(r)} 0H${fmt(width - r)}A${fmt(r)} ${fmt(r)} 0 0 1 ${fmt(width)} ${fmt(r)}`,
+    `V${fmt(height - r)}A${fmt(r)} ${fmt(r)} 0 0 1 ${fmt(width - r)} ${fmt(height)}`,
+    `H${fmt(r)}A${fmt(r)} ${fmt(r)} 0 0 1 0 ${fmt(height - r)}`,
+    `V${fmt(r)}A${fmt(r)} ${fmt(r)} 0 0 1 ${fmt(r)} 0Z`
+  ].join('')
+}
+
+function zonePath(zone: NoEtchZone): string {
+  if (zone.shape === 'circle') {
+    const r = fmt(zone.radius)
+    return `M${fmt(zone.x - zone.radius)} ${fmt(zone.y)}A${r} ${r} 0 1 0 ${fmt(zone.x + zone.radius)} ${fmt(zone.y)}A${r} ${r} 0 1 0 ${fmt(zone.x - zone.radius)} ${fmt(zone.y)}Z`
+  }
+  return `M${fmt(zone.x)} ${fmt(zone.y)}h${fmt(zone.width)}v${fmt(zone.height)}h${fmt(-zone.width)}Z`
+}
+
+// Crosshair centres just outside each corner of the panel
+function registrationPoints(productPanel: ProductPanel): Point[] {
+  const { width, height } = productPanel
+  return [
+    { x: -MARK_OFFSET_MM, y: -MARK_OFFSET_MM },
+    { x: width + MARK_OFFSET_MM, y: -MARK_OFFSET_MM },
+    { x: width + MARK_OFFSET_MM, y: height + MARK_OFFSET_MM },
+    { x: -MARK_OFFSET_MM, y: height + MARK_OFFSET_MM }
+  ]
+}
+
+function svgImageLayer(layer: ImageLayer, frame: LayerFrame, images: Record<string, string>): string {
+  const processed = images[layer.id]
+  if (!processed) {
+    // Never fall back to the original upload, which isn't what the customer approved
+    return `<desc>${escapeXml(`Missing processed artwork for "${layer.name}"`)}</desc>`
+  }
+  const href = escapeXml(processed)
+  // The embedded bitmap is already processed; the settings are noted for reference
+  const notes = [
+    hasImageFilters(layer.filters) ? `Stylized as ${describeImageFilters(layer.filters)}` : '',
+    layer.processing && layer.processing.mode !== 'none'
+      ? `Processed as ${ETCH_MODES.find(m => m.mode === layer.processing?.mode)?.label}, threshold ${layer.processing.threshold}, ${layer.processing.lpi} LPI${layer.processing.invert ? ', inverted' : ''}`
+      : ''
+  ].filter(Boolean)
+  const desc = notes.length > 0 ? `<desc>${escapeXml(notes.join('. '))}</desc>` : ''
+  return `${desc}<image x="${fmt(-frame.width / 2)}" y="${fmt(-frame.height / 2)}" width="${fmt(frame.width)}" height="${fmt(frame.height)}" preserveAspectRatio="xMidYMid meet" href="${href}" xlink:href="${href}"/>`
+}
+
+// Re-roots the stored SVG as a nested viewport filling the layer's box. The
+// markup is cleaned again here, since the design's owner can write anything to it.
+function svgVectorLayer(layer: VectorLayer, frame: LayerFrame): string {
+  const { viewBox } = layer
+  return cleanSvgMarkup(layer.svg).replace(/^\s*<svg\b([^>]*)>/, (_match, attributes: string) => {
+    const kept = attributes.replace(/\s(x|y|width|height|viewBox|preserveAspectRatio)\s*=\s*("[^"]*"|'[^']*')/g, '')
+    return `<svg${kept} x="${fmt(-frame.width / 2)}" y="${fmt(-frame.height / 2)}" width="${fmt(frame.width)}" height="${fmt(frame.height)}" viewBox="${fmt(viewBox.x)} ${fmt(viewBox.y)} ${fmt(viewBox.width)} ${fmt(viewBox.height)}" preserveAspectRatio="xMidYMid meet">`
+  })
+}
+
+function svgTextLayer(layer: TextLayer, frame: LayerFrame, em: number): string {
+  const paint = layer.style === 'outline'
+    ? `fill="none" stroke="${COLORS.artwork}" stroke-width="${fmt(layer.strokeWidth * em)}"`
+    : `fill="${COLORS.artwork}"`
+  const font = `font-family="${escapeXml(getFontLabel(layer.fontId))}" font-size="${fmt(em)}" letter-spacing="${fmt(layer.letterSpacing * em)}"`
+
+  if (layer.curve !== 0) {
+    const arc = layoutTextArc(layer, frame, em)
+    const start = arcPoint(arc, -arc.theta / 2)
+    const end = arcPoint(arc, arc.theta / 2)
+    const pathId = escapeXml(`text-arc-${layer.id}`)
+    const sweep = arc.direction > 0 ? 1 : 0
+    const largeArc = arc.theta > Math.PI ? 1 : 0
+    return [
+      `<path id="${pathId}" fill="none" stroke="none" d="M${fmt(start.x)} ${fmt(start.y)}A${fmt(arc.radius)} ${fmt(arc.radius)} 0 ${largeArc} ${sweep} ${fmt(end.x)} ${fmt(end.y)}"/>`,
+      `<text ${font} ${paint}><textPath href="#${pathId}" xlink:href="#${pathId}" startOffset="50%" text-anchor="middle" textLength="${fmt(arc.radius * arc.theta)}" lengthAdjust="spacing">${escapeXml(layer.text.replace(/\n+/g, ' '))}</textPath></text>`
+    ].join('')
+  }
+
+  const tspans = layoutTextLines(layer, frame, em)
+    .map(line => `<tspan x="${fmt(line.x)}" y="${fmt(line.y)}" text-anchor="${line.anchor}">${escapeXml(line.text)}</tspan>`)
+    .join('')
+  return `<text ${font} ${paint} xml:space="preserve">${tspans}</text>`
+}
+
+/**
+ * One panel as an SVG at true size (1 user unit = 1 mm). Artwork is clipped
+ * to the outline minus no-etch zones; reference geometry and registration
+ * marks are kept in their own coloured groups for the operator.
+ */
+export function buildPanelSvg(job: ProductionJob): string {
+  const { productPanel, panel } = job
+  const images = job.images || {}
+  const sheetWidth = productPanel.width + SHEET_MARGIN_MM * 2
+  const sheetHeight = productPanel.height + SHEET_MARGIN_MM * 2
+  const metadata = productionMetadata(job)
+  const outline = roundedRectPath(productPanel.width, productPanel.height, productPanel.cornerRadius)
+
+  const layers = panel.layers.filter(layer => layer.visible).map(layer => {
+    const frame = layerFrame(layer, productPanel)
+    const content = layer.type === 'image'
+      ? svgImageLayer(layer, frame, images)
+      : layer.type === 'vector'
+        ? svgVectorLayer(layer, frame)
+        : svgTextLayer(layer, frame, emSize(layer, productPanel))
+    return `<g id="${escapeXml(`layer-${layer.id}`)}" data-name="${escapeXml(layer.name)}" transform="translate(${fmt(frame.cx)} ${fmt(frame.cy)}) rotate(${fmt(frame.rotation)})">${content}</g>`
+  })
+
+  const marks = registrationPoints(productPanel).map(({ x, y }) => [
+    `<circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(MARK_SIZE_MM / 2)}"/>`,
+    `<path d="M${fmt(x - MARK_SIZE_MM)} ${fmt(y)}H${fmt(x + MARK_SIZE_MM)}M${fmt(x)} ${fmt(y - MARK_SIZE_MM)}V${fmt(y + MARK_SIZE_MM)}"/>`
+  ].join(''))
+
+  const header = metadata.slice(0, 4).map(([key, value]) => `${key}: ${value}`).join('   ')
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!--',
+    ...metadata.map(([key, value]) => `  ${key}: ${escapeXml(value).replace(/--/g, '- -')}`),
+    '  Units: millimetres (1 user unit = 1 mm). Only black is etched.',
+    '-->',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${fmt(sheetWidth)}mm" height="${fmt(sheetHeight)}mm" viewBox="${-SHEET_MARGIN_MM} ${-SHEET_MARGIN_MM} ${fmt(sheetWidth)} ${fmt(sheetHeight)}">`,
+    `<metadata>${metadata.map(([key, value]) => `<meta name="${key.toLowerCase()}" content="${escapeXml(value)}"/>`).join('')}</metadata>`,
+    `<defs><clipPath id="etch-area"><path clip-rule="evenodd" d="${outline}${productPanel.noEtchZones.map(zonePath).join('')}"/></clipPath></defs>`,
+    `<g id="registration" fill="none" stroke="${COLORS.registration}" stroke-width="${HAIRLINE_MM}">${marks.join('')}</g>`,
+    `<text id="header" x="0" y="${fmt(-SHEET_MARGIN_MM / 2)}" font-family="sans-serif" font-size="3" fill="${COLORS.registration}">${escapeXml(header)}</text>`,
+    `<path id="outline" fill="none" stroke="${COLORS.outline}" stroke-width="${HAIRLINE_MM}" d="${outline}"/>`,
+    `<g id="no-etch" fill="none" stroke="${COLORS.noEtch}" stroke-width="${HAIRLINE_MM}">${productPanel.noEtchZones.map(zone => `<path d="${zonePath(zone)}"><title>${escapeXml(zone.label)}</title></path>`).join('')}</g>`,
+    `<g id="artwork" clip-path="url(#etch-area)">${layers.join('')}</g>`,
+    '</svg>',
+    ''
+  ].join('\n')
+}
+
+// AutoCAD colour indices for the DXF layers
+const DXF_LAYERS: Array<[string, number]> = [
+  ['ETCH', 7],
+  ['OUTLINE', 5],
+  ['NO_ETCH', 3],
+  ['REGISTRATION', 1]
+]
+
+// Quarter-circle bulge for rounded corners in LWPOLYLINE/POLYLINE vertices
+const QUARTER_BULGE = Math.tan(Math.PI / 8)
+
+// Collects DXF group code/value pairs. DXF's y axis points up, so panel
+// coordinates are flipped about the panel height on the way in.
+function createDxfWriter(panelHeight: number) {
+  const lines: string[] = []
+
+  // A line break inside a value would shift every later code/value pair
+  const pair = (code: number, value: string | number) => {
+    lines.push(String(code), typeof value === 'number' ? fmt(value) : value.replace(/[\r\n]+/g, ' '))
+  }
+
+  const point = (codeX: number, p: Point) => {
+    pair(codeX, p.x)
+    pair(codeX + 10, panelHeight - p.y)
+    pair(codeX + 20, 0)
+  }
+
+  return {
+    pair,
+    point,
+
+    comment(text: string) {
+      pair(999, text)
+    },
+
+    polyline(layer: string, points: Point[], closed: boolean, bulges?: number[]) {
+      pair(0, 'POLYLINE')
+      pair(8, layer)
+      pair(66, 1)
+      pair(10, 0)
+      pair(20, 0)
+      pair(30, 0)
+      pair(70, closed ? 1 : 0)
+      points.forEach((p, index) => {
+        pair(0, 'VERTEX')
+        pair(8, layer)
+        point(10, p)
+        if (bulges?.[index]) {
+          pair(42, bulges[index])
+        }
+      })
+      pair(0, 'SEQEND')
+      pair(8, layer)
+    },
+
+    circle(layer: string, centre: Point, radius: number) {
+      pair(0, 'CIRCLE')
+      pair(8, layer)
+      point(10, centre)
+      pair(40, radius)
+    },
+
+    line(layer: string, from: Point, to: Point) {
+      pair(0, 'LINE')
+      pair(8, layer)
+      point(10, from)
+      point(11, to)
+    },
+
+    /** `rotation` is in the panel's clockwise degrees; DXF turns it counter-clockwise. */
+    text(layer: string, style: string, at: Point, height: number, value: string, rotation: number, align: 0 | 1 | 2) {
+      pair(0, 'TEXT')
+      pair(8, layer)
+      pair(7, style)
+      point(10, at)
+      pair(40, height)
+      pair(1, value)
+      pair(50, -rotation)
+      if (align !== 0) {
+        pair(72, align)
+        point(11, at)
+      }
+    },
+
+    toString() {
+      return lines.join('\n') + '\n'
+    }
+  }
+}
+
+type DxfWriter = ReturnType<typeof createDxfWriter>
+
+// The outline as points plus bulges, corners rounded with true arcs
+function outlineVertices(productPanel: ProductPanel): { points: Point[], bulges: number[] } {
+  const { width, height } = productPanel
+  const r = Math.max(0, Math.min(productPanel.cornerRadius, width / 2, height / 2))
+  if (r === 0) {
+    return { points: [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }], bulges: [] }
+  }
+  // Bulges are counter-clockwise positive in DXF space; this outline runs clockwise there
+  return {
+    points: [
+      { x: r, y: 0 }, { x: width - r, y: 0 },
+      { x: width, y: r }, { x: width, y: height - r },
+      { x: width - r, y: height }, { x: r, y: height },
+      { x: 0, y: height - r }, { x: 0, y: r }
+    ],
+    bulges: [0, -QUARTER_BULGE, 0, -QUARTER_BULGE, 0, -QUARTER_BULGE, 0, -QUARTER_BULGE]
+  }
+}
+
+function dxfTextLayer(dxf: DxfWriter, layer: TextLayer, frame: LayerFrame, em: number, productPanel: ProductPanel) {
+  const style = styleName(layer.fontId)
+
+  if (layer.curve !== 0) {
+    // Without glyph metrics, characters are spread evenly along the arc
+    const arc = layoutTextArc(layer, frame, em)
+    const chars = Array.from(layer.text.replace(/\n+/g, ' '))
+    chars.forEach((char, index) => {
+      if (char === ' ') return
+      const phi = -arc.theta / 2 + arc.theta * (index + 0.5) / chars.length
+      const at = toPanel(frame, arcPoint(arc, phi))
+      if (!isEtchable(at, productPanel)) return
+      dxf.text('ETCH', style, at, em * TEXT_ASCENT, char, frame.rotation + (arc.direction * phi * 180 / Math.PI), 1)
+    })
+    return
+  }
+
+  layoutTextLines(layer, frame, em).forEach(line => {
+    const align = line.anchor === 'start' ? 0 : line.anchor === 'middle' ? 1 : 2
+    const at = toPanel(frame, { x: line.x, y: line.y })
+    if (!isEtchable(at, productPanel)) return
+    dxf.text('ETCH', style, at, em * TEXT_ASCENT, line.text, frame.rotation, align)
+  })
+}
+
+function dxfVectorLayer(dxf: DxfWriter, layer: VectorLayer, frame: LayerFrame, productPanel: ProductPanel) {
+  const { viewBox } = layer
+  const scale = Math.min(frame.width / viewBox.width, frame.height / viewBox.height)
+  flattenSvg(layer.svg).forEach(polyline => {
+    const points = polyline.points.map(p => toPanel(frame, {
+      x: (p.x - viewBox.x - viewBox.width / 2) * scale,
+      y: (p.y - viewBox.y - viewBox.height / 2) * scale
+    }))
+    clipPolyline(points, polyline.closed, productPanel).forEach(piece => dxf.polyline('ETCH', piece.points, piece.closed))
+  })
+}
+
+// Parameter range [t0, t1] along a segment, 0 at its start and 1 at its end
+type Interval = [number, number]
+
+// Liang-Barsky: the part of a→b inside an axis-aligned rectangle
+function segmentInRect(a: Point, b: Point, x0: number, y0: number, x1: number, y1: number): Interval | null {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  let t0 = 0
+  let t1 = 1
+  const edges: Array<[number, number]> = [[-dx, a.x - x0], [dx, x1 - a.x], [-dy, a.y - y0], [dy, y1 - a.y]]
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null
+      continue
+    }
+    const t = q / p
+    if (p < 0) {
+      t0 = Math.max(t0, t)
+    } else {
+      t1 = Math.min(t1, t)
+    }
+    if (t0 >= t1) return null
+  }
+  return [t0, t1]
+}
+
+function segmentInCircle(a: Point, b: Point, center: Point, radius: number): Interval | null {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const fx = a.x - center.x
+  const fy = a.y - center.y
+  const qa = dx * dx + dy * dy
+  const qb = 2 * (fx * dx + fy * dy)
+  const qc = fx * fx + fy * fy - radius * radius
+  if (qa === 0) return qc < 0 ? [0, 1] : null
+  const discriminant = qb * qb - 4 * qa * qc
+  if (discriminant <= 0) return null
+  const root = Math.sqrt(discriminant)
+  const t0 = Math.max(0, (-qb - root) / (2 * qa))
+  const t1 = Math.min(1, (-qb + root) / (2 * qa))
+  return t0 < t1 ? [t0, t1] : null
+}
+
+function unionIntervals(intervals: Array<Interval | null>): Interval[] {
+  const sorted = intervals.filter((interval): interval is Interval => interval !== null).sort((a, b) => a[0] - b[0])
+  return sorted.reduce<Interval[]>((merged, [t0, t1]) => {
+    const last = merged[merged.length - 1]
+    if (last && t0 <= last[1]) {
+      last[1] = Math.max(last[1], t1)
+    } else {
+      merged.push([t0, t1])
+    }
+    return merged
+  }, [])
+}
+
+function subtractIntervals(keep: Interval[], remove: Interval[]): Interval[] {
+  return remove.reduce((kept, [r0, r1]) => kept.flatMap(([t0, t1]): Interval[] => {
+    if (r1 <= t0 || r0 >= t1) return [[t0, t1]]
+    return [[t0, r0] as Interval, [r1, t1] as Interval].filter(([start, end]) => end > start)
+  }), keep)
+}
+
+// The parts of a→b that may be etched: inside the rounded outline and outside every no-etch zone
+function etchIntervals(a: Point, b: Point, productPanel: ProductPanel): Interval[] {
+  const { width, height } = productPanel
+  const r = Math.max(0, Math.min(productPanel.cornerRadius, width / 2, height / 2))
+  // The rounded outline as a cross of two rectangles plus a circle in each corner
+  const inside = unionIntervals([
+    segmentInRect(a, b, r, 0, width - r, height),
+    segmentInRect(a, b, 0, r, width, height - r),
+    ...(r > 0
+      ? [[r, r], [width - r, r], [width - r, height - r], [r, height - r]].map(([x, y]) => segmentInCircle(a, b, { x, y }, r))
+      : [])
+  ])
+  const blocked = unionIntervals(productPanel.noEtchZones.map(zone => zone.shape === 'circle'
+    ? segmentInCircle(a, b, zone, zone.radius)
+    : segmentInRect(a, b, zone.x, zone.y, zone.x + zone.width, zone.y + zone.height)
+  ))
+  return subtractIntervals(inside, blocked)
+}
+
+function isEtchable(point: Point, productPanel: ProductPanel): boolean {
+  return etchIntervals(point, point, productPanel).length > 0
+}
+
+/**
+ * Clips a polyline to the etchable area, the DXF counterpart of the SVG's
+ * clip path. Returns the pieces that survive; a closed polyline that is
+ * untouched stays closed.
+ */
+function clipPolyline(points: Point[], closed: boolean, productPanel: ProductPanel): Array<{ points: Point[], closed: boolean }> {
+  const path = closed ? [...points, points[0]] : points
+  const runs: Point[][] = []
+  let current: Point[] | null = null
+  let clipped = false
+  const at = (a: Point, b: Point, t: number) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = path[i]
+    const b = path[i + 1]
+    const kept = etchIntervals(a, b, productPanel)
+    if (kept.length !== 1 || kept[0][0] > 0 || kept[0][1] < 1) clipped = true
+
+    kept.forEach(([t0, t1]) => {
+      if (current && t0 === 0) {
+        current.push(at(a, b, t1))
+      } else {
+        current = [at(a, b, t0), at(a, b, t1)]
+        runs.push(current)
+      }
+    })
+    if (kept.length === 0 || kept[kept.length - 1][1] < 1) current = null
+  }
+
+  if (!clipped) return [{ points, closed }]
+  // A closed outline clipped part way round: its last piece carries on into its first
+  if (closed && runs.length > 1 && current !== null && etchIntervals(path[0], path[1], productPanel)[0]?.[0] === 0) {
+    const last = runs.pop() as Point[]
+    runs[0] = [...last, ...runs[0].slice(1)]
+  }
+  return runs.map(run => ({ points: run, closed: false }))
+}
+
+const styleName = (fontId: string) => getFontLabel(fontId).toUpperCase().replace(/\s+/g, '_')
+
+/**
+ * One panel as an R12 ASCII DXF in millimetres. Vector artwork is flattened
+ * to polylines clipped like the SVG's artwork, and text is written as TEXT
+ * entities in the design's font; raster images can't be carried by DXF and
+ * are listed in the header instead.
+ */
+export function buildPanelDxf(job: ProductionJob): string {
+  const { productPanel, panel } = job
+  const dxf = createDxfWriter(productPanel.height)
+  const visibleLayers = panel.layers.filter(layer => layer.visible)
+  const fonts = Array.from(new Set(visibleLayers.flatMap(layer => layer.type === 'text' ? [layer.fontId] : [])))
+  const rasterLayers = visibleLayers.filter(layer => layer.type === 'image')
+
+  productionMetadata(job).forEach(([key, value]) => dxf.comment(`${key}: ${value}`))
+  dxf.comment('Units: millimetres')
+  rasterLayers.forEach(layer => dxf.comment(`Raster layer "${layer.name}" is only included in the SVG export`))
+  // TEXT entities can't be cut by a zone; lines or characters starting in one are left out, the rest need checking
+  visibleLayers
+    .filter(layer => layer.type === 'text' && findLayerConflicts(layer, productPanel).zones.length > 0)
+    .forEach(layer => dxf.comment(`Text layer "${layer.name}" overlaps a no-etch zone; check it before cutting`))
+
+  dxf.pair(0, 'SECTION')
+  dxf.pair(2, 'HEADER')
+  dxf.pair(9, '$ACADVER')
+  dxf.pair(1, 'AC1009')
+  dxf.pair(9, '$INSUNITS')
+  dxf.pair(70, 4)
+  dxf.pair(9, '$MEASUREMENT')
+  dxf.pair(70, 1)
+  dxf.pair(9, '$EXTMIN')
+  dxf.point(10, { x: -SHEET_MARGIN_MM, y: productPanel.height + SHEET_MARGIN_MM })
+  dxf.pair(9, '$EXTMAX')
+  dxf.point(10, { x: productPanel.width + SHEET_MARGIN_MM, y: -SHEET_MARGIN_MM })
+  dxf.pair(0, 'ENDSEC')
+
+  dxf.pair(0, 'SECTION')
+  dxf.pair(2, 'TABLES')
+  dxf.pair(0, 'TABLE')
+  dxf.pair(2, 'LTYPE')
+  dxf.pair(70, 1)
+  dxf.pair(0, 'LTYPE')
+  dxf.pair(2, 'CONTINUOUS')
+  dxf.pair(70, 0)
+  dxf.pair(3, 'Solid line')
+  dxf.pair(72, 65)
+  dxf.pair(73, 0)
+  dxf.pair(40, 0)
+  dxf.pair(0, 'ENDTAB')
+  dxf.pair(0, 'TABLE')
+  dxf.pair(2, 'LAYER')
+  dxf.pair(70, DXF_LAYERS.length)
+  DXF_LAYERS.forEach(([name, color]) => {
+    dxf.pair(0, 'LAYER')
+    dxf.pair(2, name)
+    dxf.pair(70, 0)
+    dxf.pair(62, color)
+    dxf.pair(6, 'CONTINUOUS')
+  })
+  dxf.pair(0, 'ENDTAB')
+  dxf.pair(0, 'TABLE')
+  dxf.pair(2, 'STYLE')
+  const styles = [['STANDARD', 'txt'], ...fonts.map(fontId => [styleName(fontId), `${getFontLabel(fontId)}.ttf`])]
+  dxf.pair(70, styles.length)
+  styles.forEach(([name, file]) => {
+    dxf.pair(0, 'STYLE')
+    dxf.pair(2, name)
+    dxf.pair(70, 0)
+    dxf.pair(40, 0)
+    dxf.pair(41, 1)
+    dxf.pair(50, 0)
+    dxf.pair(71, 0)
+    dxf.pair(42, 2.5)
+    dxf.pair(3, file)
+    dxf.pair(4, '')
+  })
+  dxf.pair(0, 'ENDTAB')
+  dxf.pair(0, 'ENDSEC')
+
+  dxf.pair(0, 'SECTION')
+  dxf.pair(2, 'ENTITIES')
+
+  const outline = outlineVertices(productPanel)
+  dxf.polyline('OUTLINE', outline.points, true, outline.bulges)
+
+  productPanel.noEtchZones.forEach(zone => {
+    if (zone.shape === 'circle') {
+      dxf.circle('NO_ETCH', { x: zone.x, y: zone.y }, zone.radius)
+    } else {
+      dxf.polyline('NO_ETCH', [
+        { x: zone.x, y: zone.y },
+        { x: zone.x + zone.width, y: zone.y },
+        { x: zone.x + zone.width, y: zone.y + zone.height },
+        { x: zone.x, y: zone.y + zone.height }
+      ], true)
+    }
+  })
+
+  registrationPoints(productPanel).forEach(({ x, y }) => {
+    dxf.circle('REGISTRATION', { x, y }, MARK_SIZE_MM / 2)
+    dxf.line('REGISTRATION', { x: x - MARK_SIZE_MM, y }, { x: x + MARK_SIZE_MM, y })
+    dxf.line('REGISTRATION', { x, y: y - MARK_SIZE_MM }, { x, y: y + MARK_SIZE_MM })
+  })
+
+  const header = productionMetadata(job).slice(0, 4).map(([key, value]) => `${key}: ${value}`).join('   ')
+  dxf.text('REGISTRATION', 'STANDARD', { x: 0, y: -SHEET_MARGIN_MM / 2 }, 3, header, 0, 0)
+
+  visibleLayers.forEach(layer => {
+    const frame = layerFrame(layer, productPanel)
+    if (layer.type === 'vector') {
+      dxfVectorLayer(dxf, layer, frame, productPanel)
+    } else if (layer.type === 'text') {
+      dxfTextLayer(dxf, layer, frame, emSize(layer, productPanel), productPanel)
+    }
+  })
+
+  dxf.pair(0, 'ENDSEC')
+  dxf.pair(0, 'EOF')
+  return dxf.toString()
+}
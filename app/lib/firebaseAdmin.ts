@@ -0,0 +1,66 @@
+import { App, cert, getApps, initializeApp } from 'firebase-admin/app'
+import { getAuth } from 'firebase-admin/auth'
+import { getFirestore } from 'firebase-admin/firestore'
+import { getStorage } from 'firebase-admin/storage'
+
+// Server-only: uses the same service account variables as scripts/setAdmin.ts
+export function isAdminConfigured(): boolean {
+  return Boolean(process.env.FIREBASE_PROJECT_ID && process.env.FIREBASE_CLIENT_EMAIL && process.env.FIREBASE_PRIVATE_KEY)
+}
+
+/**
+ * The Firebase Admin app, initialized on first use so that importing this
+ * module never throws. Check `isAdminConfigured` first; this throws when the
+ * service account variables are missing.
+ */
+function getAdminApp(): App {
+  const existing = getApps()[0]
+  if (existing) return existing
+
+  if (!isAdminConfigured()) {
+    throw new Error('Firebase Admin is not configured: set FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL and FIREBASE_PRIVATE_KEY')
+  }
+  return initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  })
+}
+
+export const getAdminAuth = () => getAuth(getAdminApp())
+export const getAdminDb = () => getFirestore(getAdminApp())
+// The bucket customers upload artwork to, as configured for the client
+export const getAdminBucket = () => getStorage(getAdminApp()).bucket(process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET)
+
+/**
+ * Resolves a request's `Authorization: Bearer <ID token>` to the signed-in
+ * user's uid, or null when the token is missing or invalid.
+ */
+export async function verifyUserRequest(request: Request): Promise<string | null> {
+  const token = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1]
+  if (!token) return null
+
+  try {
+    const { uid } = await getAdminAuth().verifyIdToken(token)
+    return uid
+  } catch (error) {
+    console.error('Error verifying ID token:', error)
+    return null
+  }
+}
+
+/** Like `verifyUserRequest`, but null unless the user is an admin. */
+export async function verifyAdminRequest(request: Request): Promise<string | null> {
+  const uid = await verifyUserRequest(request)
+  if (!uid) return null
+
+  try {
+    const userDoc = await getAdminDb().collection('users').doc(uid).get()
+    return userDoc.data()?.isAdmin === true ? uid : null
+  } catch (error) {
+    console.error('Error checking admin status:', error)
+    return null
+  }
+}
@@ -0,0 +1,14 @@
+// Published family names of the etch fonts. Kept apart from next/font so
+// server code (like production exports) can name fonts without loading them.
+export const ETCH_FONT_FACES = [
+  { id: 'orbitron', label: 'Orbitron' },
+  { id: 'oswald', label: 'Oswald' },
+  { id: 'playfair', label: 'Playfair Display' },
+  { id: 'bebas-neue', label: 'Bebas Neue' },
+  { id: 'pacifico', label: 'Pacifico' },
+  { id: 'roboto-mono', label: 'Roboto Mono' }
+]
+
+export function getFontLabel(fontId: string): string {
+  return (ETCH_FONT_FACES.find(face => face.id === fontId) || ETCH_FONT_FACES[0]).label
+}
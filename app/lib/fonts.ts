@@ -0,0 +1,34 @@
+import { Bebas_Neue, Orbitron, Oswald, Pacifico, Playfair_Display, Roboto_Mono } from 'next/font/google'
+import { ETCH_FONT_FACES } from './fontFaces'
+
+const orbitron = Orbitron({ subsets: ['latin'], display: 'swap' })
+const oswald = Oswald({ subsets: ['latin'], display: 'swap' })
+const playfair = Playfair_Display({ subsets: ['latin'], display: 'swap' })
+const bebasNeue = Bebas_Neue({ subsets: ['latin'], weight: '400', display: 'swap' })
+const pacifico = Pacifico({ subsets: ['latin'], weight: '400', display: 'swap' })
+const robotoMono = Roboto_Mono({ subsets: ['latin'], display: 'swap' })
+
+export interface EtchFont {
+  id: string
+  label: string
+  // CSS font-family list as generated by next/font, usable in canvas `font` strings
+  family: string
+}
+
+const FAMILIES: Record<string, string> = {
+  'orbitron': orbitron.style.fontFamily,
+  'oswald': oswald.style.fontFamily,
+  'playfair': playfair.style.fontFamily,
+  'bebas-neue': bebasNeue.style.fontFamily,
+  'pacifico': pacifico.style.fontFamily,
+  'roboto-mono': robotoMono.style.fontFamily
+}
+
+// Fonts are self-hosted by next/font, so the designer never depends on a third-party CDN
+export const ETCH_FONTS: EtchFont[] = ETCH_FONT_FACES.map(face => ({ ...face, family: FAMILIES[face.id] }))
+
+export const DEFAULT_FONT_ID = ETCH_FONTS[0].id
+
+export function getEtchFont(fontId: string): EtchFont {
+  return ETCH_FONTS.find(font => font.id === fontId) || ETCH_FONTS[0]
+}
@@ -0,0 +1,265 @@
+export type LineArtStyle = 'none' | 'sobel' | 'canny' | 'posterize' | 'sketch'
+
+export type BackgroundKey = 'none' | 'luminance' | 'color'
+
+/**
+ * Stylization for photo layers. It runs on the original upload every time it
+ * is drawn, so the settings alone are enough to regenerate the artwork at any
+ * resolution. Pixel distances are given at a 1000 px long edge and scaled to
+ * the image being filtered.
+ */
+export interface ImageFilters {
+  style: LineArtStyle
+  // Blur before edge detection or posterizing; the pencil width for sketches
+  smoothing: number
+  // Gradient strength (0-255) an edge needs to be drawn; Canny's upper threshold
+  edgeThreshold: number
+  // Grey levels kept by posterize
+  levels: number
+  background: BackgroundKey
+  // Colour keyed out as background; the luminance key only uses its brightness
+  keyColor: string
+  // Distance from the key colour (0-255) that still counts as background
+  tolerance: number
+  // Width of the fade between removed and kept pixels (0-255)
+  softness: number
+}
+
+export const LINE_ART_STYLES: Array<{ style: LineArtStyle, label: string, smoothing: number }> = [
+  { style: 'none', label: 'Photo', smoothing: 0 },
+  { style: 'sobel', label: 'Edges (Sobel)', smoothing: 1 },
+  { style: 'canny', label: 'Edges (Canny)', smoothing: 2 },
+  { style: 'posterize', label: 'Posterize', smoothing: 1 },
+  { style: 'sketch', label: 'Pencil Sketch', smoothing: 8 }
+]
+
+export const BACKGROUND_KEYS: Array<{ background: BackgroundKey, label: string }> = [
+  { background: 'none', label: 'Keep' },
+  { background: 'luminance', label: 'By brightness' },
+  { background: 'color', label: 'By colour' }
+]
+
+export const DEFAULT_IMAGE_FILTERS: ImageFilters = {
+  style: 'none',
+  smoothing: 0,
+  edgeThreshold: 40,
+  levels: 4,
+  background: 'none',
+  keyColor: '#ffffff',
+  tolerance: 40,
+  softness: 20
+}
+
+const FILTER_REFERENCE_PX = 1000
+
+export function hasImageFilters(filters?: ImageFilters): filters is ImageFilters {
+  return !!filters && (filters.style !== 'none' || filters.background !== 'none')
+}
+
+/** Short summary for production notes, e.g. "Posterize, smoothing 1, 4 levels; colour key #ffffff, ...". */
+export function describeImageFilters(filters: ImageFilters): string {
+  const parts: string[] = []
+  if (filters.style !== 'none') {
+    const label = LINE_ART_STYLES.find(s => s.style === filters.style)?.label
+    parts.push(`${label}, smoothing ${filters.smoothing}${
+      filters.style === 'sobel' || filters.style === 'canny' ? `, edge threshold ${filters.edgeThreshold}` : ''
+    }${filters.style === 'posterize' ? `, ${filters.levels} levels` : ''}`)
+  }
+  if (filters.background !== 'none') {
+    parts.push(`${filters.background === 'color' ? 'colour' : 'brightness'} key ${filters.keyColor}, tolerance ${filters.tolerance}, softness ${filters.softness}`)
+  }
+  return parts.join('; ')
+}
+
+function parseHexColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16) || 0
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b
+
+// Alpha (0..1) left on each pixel once the key colour is removed
+function keyBackground(data: Uint8ClampedArray, filters: ImageFilters): Float32Array {
+  const alpha = new Float32Array(data.length / 4)
+  const [kr, kg, kb] = parseHexColor(filters.keyColor)
+  const keyLuma = luma(kr, kg, kb)
+  const softness = Math.max(1, filters.softness)
+
+  for (let i = 0; i < alpha.length; i++) {
+    const r = data[i * 4]
+    const g = data[i * 4 + 1]
+    const b = data[i * 4 + 2]
+    let distance = 255
+    if (filters.background === 'luminance') {
+      distance = Math.abs(luma(r, g, b) - keyLuma)
+    } else if (filters.background === 'color') {
+      distance = Math.hypot(r - kr, g - kg, b - kb) / Math.sqrt(3)
+    }
+    const keep = Math.min(1, Math.max(0, (distance - filters.tolerance) / softness))
+    alpha[i] = keep * (data[i * 4 + 3] / 255)
+  }
+
+  return alpha
+}
+
+// Three box blurs in a row come close to a Gaussian and stay linear in the radius
+function blur(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const r = Math.round(radius)
+  if (r < 1) return values
+
+  const current = Float32Array.from(values)
+  const scratch = new Float32Array(values.length)
+  const pass = (source: Float32Array, target: Float32Array, length: number, lines: number, step: number, lineStep: number) => {
+    for (let line = 0; line < lines; line++) {
+      const base = line * lineStep
+      const at = (index: number) => source[base + Math.min(length - 1, Math.max(0, index)) * step]
+      let sum = 0
+      for (let k = -r; k <= r; k++) sum += at(k)
+      for (let i = 0; i < length; i++) {
+        target[base + i * step] = sum / (2 * r + 1)
+        sum += at(i + r + 1) - at(i - r)
+      }
+    }
+  }
+
+  for (let iteration = 0; iteration < 3; iteration++) {
+    pass(current, scratch, width, height, 1, width)
+    pass(scratch, current, height, width, width, 1)
+  }
+  return current
+}
+
+function sobel(values: Float32Array, width: number, height: number): { magnitude: Float32Array, direction: Uint8Array } {
+  const magnitude = new Float32Array(values.length)
+  // Gradient direction rounded to 0°, 45°, 90° or 135°
+  const direction = new Uint8Array(values.length)
+  const at = (x: number, y: number) => values[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))]
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1)
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1)
+      const i = y * width + x
+      // The kernel's largest response is 4 × 255, so this keeps strength in 0-255
+      magnitude[i] = Math.hypot(gx, gy) / 4
+      const angle = ((Math.atan2(gy, gx) * 180) / Math.PI + 180) % 180
+      direction[i] = Math.round(angle / 45) % 4
+    }
+  }
+
+  return { magnitude, direction }
+}
+
+const NEIGHBOURS: Array<[number, number]> = [[1, 0], [1, 1], [0, 1], [-1, 1]]
+
+// Thin edges to their ridge, then keep weak edges only where they touch a strong one
+function canny(values: Float32Array, width: number, height: number, high: number): Float32Array {
+  const { magnitude, direction } = sobel(values, width, height)
+  const low = high / 2
+  const thin = new Float32Array(values.length)
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const [dx, dy] = NEIGHBOURS[direction[i]]
+      const m = magnitude[i]
+      if (m >= magnitude[i + dy * width + dx] && m >= magnitude[i - dy * width - dx]) {
+        thin[i] = m
+      }
+    }
+  }
+
+  const edges = new Float32Array(values.length)
+  const stack: number[] = []
+  for (let i = 0; i < thin.length; i++) {
+    if (thin[i] >= high && !edges[i]) {
+      edges[i] = 255
+      stack.push(i)
+      while (stack.length > 0) {
+        const j = stack.pop() as number
+        const x = j % width
+        const y = (j - x) / width
+        for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+          for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+            const n = ny * width + nx
+            if (!edges[n] && thin[n] >= low) {
+              edges[n] = 255
+              stack.push(n)
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return edges
+}
+
+/**
+ * Applies line-art stylization and background removal. Edge styles return
+ * black lines on transparency, so only the lines are etched; the other styles
+ * return greys with the background keyed out of the alpha channel.
+ */
+export function applyImageFilters(image: ImageData, filters: ImageFilters): ImageData {
+  const { width, height, data } = image
+  const unit = Math.max(width, height) / FILTER_REFERENCE_PX
+  const alpha = filters.background === 'none'
+    ? Float32Array.from({ length: width * height }, (_, i) => data[i * 4 + 3] / 255)
+    : keyBackground(data, filters)
+
+  // Brightness over white, so a keyed-out background reads as paper and its outline as an edge
+  const grey = new Float32Array(width * height)
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = alpha[i] * luma(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) + (1 - alpha[i]) * 255
+  }
+
+  const output = new ImageData(width, height)
+  const write = (i: number, level: number, opacity: number) => {
+    output.data[i * 4] = level
+    output.data[i * 4 + 1] = level
+    output.data[i * 4 + 2] = level
+    output.data[i * 4 + 3] = Math.round(opacity * 255)
+  }
+
+  switch (filters.style) {
+    case 'sobel': {
+      const { magnitude } = sobel(blur(grey, width, height, filters.smoothing * unit), width, height)
+      for (let i = 0; i < grey.length; i++) {
+        write(i, 0, magnitude[i] >= filters.edgeThreshold ? Math.min(1, magnitude[i] / 255 * 2) : 0)
+      }
+      break
+    }
+    case 'canny': {
+      const edges = canny(blur(grey, width, height, filters.smoothing * unit), width, height, filters.edgeThreshold)
+      for (let i = 0; i < grey.length; i++) {
+        write(i, 0, edges[i] / 255)
+      }
+      break
+    }
+    case 'posterize': {
+      const steps = Math.max(2, Math.round(filters.levels)) - 1
+      const smoothed = blur(grey, width, height, filters.smoothing * unit)
+      for (let i = 0; i < grey.length; i++) {
+        write(i, Math.round((Math.round((smoothed[i] / 255) * steps) / steps) * 255), alpha[i])
+      }
+      break
+    }
+    case 'sketch': {
+      // Colour dodge of the image with its blurred negative leaves only the outlines and shading
+      const inverted = blur(grey.map(value => 255 - value), width, height, Math.max(1, filters.smoothing * unit))
+      for (let i = 0; i < grey.length; i++) {
+        write(i, Math.min(255, (grey[i] * 255) / Math.max(1, 255 - inverted[i])), alpha[i])
+      }
+      break
+    }
+    default:
+      for (let i = 0; i < grey.length; i++) {
+        output.data[i * 4] = data[i * 4]
+        output.data[i * 4 + 1] = data[i * 4 + 1]
+        output.data[i * 4 + 2] = data[i * 4 + 2]
+        output.data[i * 4 + 3] = Math.round(alpha[i] * 255)
+      }
+  }
+
+  return output
+}
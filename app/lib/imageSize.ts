@@ -0,0 +1,41 @@
+import { PixelSize } from './printQuality'
+
+// JPEG markers that start a frame, and so carry its size; C4, C8 and CC are other segments
+const JPEG_FRAME_MARKERS = [0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]
+
+function pngSize(bytes: Uint8Array, view: DataView): PixelSize | null {
+  // Signature, then the IHDR chunk, whose data opens with width and height
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+  if (bytes.length < 24 || signature.some((byte, index) => bytes[index] !== byte)) return null
+  return { width: view.getUint32(16), height: view.getUint32(20) }
+}
+
+function jpegSize(bytes: Uint8Array, view: DataView): PixelSize | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null
+  let offset = 2
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+    const marker = bytes[offset + 1]
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      offset++
+      continue
+    }
+    if (JPEG_FRAME_MARKERS.includes(marker)) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return null
+}
+
+/**
+ * Pixel size of a PNG or JPEG from the start of its file, without decoding
+ * it, for the server. Null when the format isn't recognised or the size
+ * isn't within `bytes`; JPEG metadata can push it tens of kilobytes in.
+ */
+export function readImageSize(bytes: Uint8Array): PixelSize | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const size = pngSize(bytes, view) || jpegSize(bytes, view)
+  return size && size.width > 0 && size.height > 0 ? size : null
+}
@@ -0,0 +1,343 @@
+import { DesignLayer, TextLayer, VectorLayer } from './design'
+import { ETCH_INK_LEVEL, processEtchImage } from './etchProcessing'
+import { applyImageFilters, hasImageFilters } from './imageFilters'
+import { getEtchFont } from './fonts'
+import { MM_PER_INCH, PanelSizeMm, layerPrintSizeMm } from './panels'
+
+export type LayerRaster = HTMLImageElement | HTMLCanvasElement
+
+// Previews are capped in size to stay interactive; production files run at the upload's full resolution
+export type RasterResolution = 'preview' | 'production'
+
+// Pixels per em when rasterizing text; high enough to stay crisp on a full panel
+const TEXT_EM_PX = 160
+const LINE_HEIGHT = 1.2
+// Long edge, in pixels, that vector artwork is rasterized at for previews
+const VECTOR_RASTER_PX = 2048
+// Largest long edge etch processing runs at, to keep dithering interactive
+const MAX_PROCESS_PX = 2048
+// Edge detection is heavier still, so previews of filtered photos run smaller
+const MAX_FILTER_PX = 1024
+// Etched areas read as a light frost on both metal and glass
+export const ETCH_INK = `rgb(${ETCH_INK_LEVEL}, ${ETCH_INK_LEVEL}, ${ETCH_INK_LEVEL})`
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>()
+const rasterCache = new Map<string, Promise<HTMLCanvasElement>>()
+const RASTER_CACHE_LIMIT = 50
+
+// Images come from Firebase Storage, so they are requested with CORS to keep
+// the canvas untainted for texture upload
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  const cached = imageCache.get(url)
+  if (cached) return cached
+
+  const promise = new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => {
+      imageCache.delete(url)
+      reject(new Error(`Failed to load image: ${url}`))
+    }
+    img.src = url
+  })
+
+  imageCache.set(url, promise)
+  return promise
+}
+
+export function getRasterSize(raster: LayerRaster): { width: number, height: number } {
+  if (raster instanceof HTMLImageElement) {
+    return { width: raster.naturalWidth, height: raster.naturalHeight }
+  }
+  return { width: raster.width, height: raster.height }
+}
+
+interface PlacedGlyph {
+  char: string
+  x: number
+  y: number
+  angle: number
+  advance: number
+}
+
+// Lays glyphs out in em-pixel space around a baseline at y = 0. Advances are
+// taken from prefix widths so the font's kerning survives per-glyph drawing.
+function layoutGlyphs(ctx: CanvasRenderingContext2D, layer: TextLayer): PlacedGlyph[] {
+  const spacing = layer.letterSpacing * TEXT_EM_PX
+  const measureLine = (line: string) => {
+    const chars = Array.from(line)
+    const starts: number[] = []
+    const advances: number[] = []
+    let prefix = ''
+    chars.forEach((char, index) => {
+      const start = ctx.measureText(prefix).width
+      prefix += char
+      starts.push(start + index * spacing)
+      advances.push(ctx.measureText(prefix).width - start)
+    })
+    const width = chars.length > 0 ? ctx.measureText(prefix).width + (chars.length - 1) * spacing : 0
+    return { chars, starts, advances, width }
+  }
+
+  const curve = Math.max(-360, Math.min(360, layer.curve))
+
+  if (curve !== 0) {
+    // Curved text follows a single arc, so line breaks become spaces
+    const line = measureLine(layer.text.replace(/\n+/g, ' '))
+    const radius = line.width / (Math.abs(curve) * Math.PI / 180)
+
+    return line.chars.map((char, index) => {
+      const arcPosition = line.starts[index] + line.advances[index] / 2
+      const phi = (arcPosition - line.width / 2) / radius
+      return curve > 0
+        ? { char, x: radius * Math.sin(phi), y: radius - radius * Math.cos(phi), angle: phi, advance: line.advances[index] }
+        : { char, x: radius * Math.sin(phi), y: radius * Math.cos(phi) - radius, angle: -phi, advance: line.advances[index] }
+    })
+  }
+
+  const lines = layer.text.split('\n').map(measureLine)
+  const maxWidth = Math.max(0, ...lines.map(line => line.width))
+
+  return lines.flatMap((line, lineIndex) => {
+    const offset = layer.align === 'left' ? 0 : layer.align === 'right' ? maxWidth - line.width : (maxWidth - line.width) / 2
+    return line.chars.map((char, index) => ({
+      char,
+      x: offset + line.starts[index] + line.advances[index] / 2,
+      y: lineIndex * LINE_HEIGHT * TEXT_EM_PX,
+      angle: 0,
+      advance: line.advances[index]
+    }))
+  })
+}
+
+async function rasterizeText(layer: TextLayer): Promise<HTMLCanvasElement> {
+  const font = getEtchFont(layer.fontId)
+  const fontCss = `${TEXT_EM_PX}px ${font.family}`
+
+  // Canvas text silently falls back to a system font if the face isn't loaded yet
+  if (document.fonts) {
+    await document.fonts.load(fontCss, layer.text)
+  }
+
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+
+  ctx.font = fontCss
+  const glyphs = layoutGlyphs(ctx, layer)
+  const metrics = ctx.measureText('Hg')
+  const ascent = metrics.fontBoundingBoxAscent || TEXT_EM_PX * 0.8
+  const descent = metrics.fontBoundingBoxDescent || TEXT_EM_PX * 0.2
+  const lineWidth = layer.style === 'outline' ? Math.max(1, layer.strokeWidth * TEXT_EM_PX) : 0
+  const padding = lineWidth + 2
+
+  // Bounds of every rotated glyph cell
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  glyphs.forEach(glyph => {
+    const cos = Math.cos(glyph.angle)
+    const sin = Math.sin(glyph.angle)
+    const corners = [[-glyph.advance / 2, -ascent], [glyph.advance / 2, -ascent], [-glyph.advance / 2, descent], [glyph.advance / 2, descent]]
+    corners.forEach(([cx, cy]) => {
+      const x = glyph.x + cx * cos - cy * sin
+      const y = glyph.y + cx * sin + cy * cos
+      minX = Math.min(minX, x)
+      minY = Math.min(minY, y)
+      maxX = Math.max(maxX, x)
+      maxY = Math.max(maxY, y)
+    })
+  })
+
+  if (glyphs.length === 0) {
+    minX = 0
+    maxX = TEXT_EM_PX / 2
+    minY = -ascent
+    maxY = descent
+  }
+
+  canvas.width = Math.ceil(maxX - minX + padding * 2)
+  canvas.height = Math.ceil(maxY - minY + padding * 2)
+
+  // Resizing the canvas resets its state
+  ctx.font = fontCss
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'alphabetic'
+  ctx.fillStyle = ETCH_INK
+  ctx.strokeStyle = ETCH_INK
+  ctx.lineWidth = lineWidth
+  ctx.lineJoin = 'round'
+
+  glyphs.forEach(glyph => {
+    ctx.save()
+    ctx.translate(glyph.x - minX + padding, glyph.y - minY + padding)
+    ctx.rotate(glyph.angle)
+    if (layer.style === 'outline') {
+      ctx.strokeText(glyph.char, 0, 0)
+    } else {
+      ctx.fillText(glyph.char, 0, 0)
+    }
+    ctx.restore()
+  })
+
+  return canvas
+}
+
+async function rasterizeVector(layer: VectorLayer): Promise<HTMLCanvasElement> {
+  // A data URL keeps the SVG same-origin, so drawing it doesn't taint the canvas
+  const img = new Image()
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve()
+    img.onerror = () => reject(new Error(`Failed to render SVG layer ${layer.name}`))
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(layer.svg)}`
+  })
+
+  const { width, height } = layer.viewBox
+  const fit = VECTOR_RASTER_PX / Math.max(width, height)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width * fit))
+  canvas.height = Math.max(1, Math.round(height * fit))
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+  return canvas
+}
+
+function sourceKey(layer: DesignLayer): string {
+  if (layer.type === 'image') {
+    return hasImageFilters(layer.filters) ? `image:${layer.imageUrl}|${JSON.stringify(layer.filters)}` : `image:${layer.imageUrl}`
+  }
+  if (layer.type === 'vector') {
+    return `vector:${layer.svg}`
+  }
+  const { text, fontId, letterSpacing, align, curve, style, strokeWidth } = layer
+  return `text:${JSON.stringify([text, fontId, letterSpacing, align, curve, style, strokeWidth])}`
+}
+
+function cacheRaster(key: string, create: () => Promise<HTMLCanvasElement>): Promise<HTMLCanvasElement> {
+  const cached = rasterCache.get(key)
+  if (cached) return cached
+
+  const promise = create()
+  promise.catch(() => rasterCache.delete(key))
+  rasterCache.set(key, promise)
+  if (rasterCache.size > RASTER_CACHE_LIMIT) {
+    rasterCache.delete(rasterCache.keys().next().value as string)
+  }
+  return promise
+}
+
+// The layer's artwork before any etch processing
+function rasterizeSource(layer: DesignLayer, resolution: RasterResolution = 'preview'): Promise<LayerRaster> {
+  if (layer.type === 'image') {
+    const filters = layer.filters
+    if (!hasImageFilters(filters)) {
+      return loadImage(layer.imageUrl)
+    }
+
+    const filterImage = async () => {
+      const image = await loadImage(layer.imageUrl)
+      const maxPx = resolution === 'production' ? Infinity : MAX_FILTER_PX
+      const fit = Math.min(1, maxPx / Math.max(image.naturalWidth, image.naturalHeight))
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.max(1, Math.round(image.naturalWidth * fit))
+      canvas.height = Math.max(1, Math.round(image.naturalHeight * fit))
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })
+      if (!ctx) {
+        throw new Error('Canvas 2D context is not available')
+      }
+
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+      ctx.putImageData(applyImageFilters(ctx.getImageData(0, 0, canvas.width, canvas.height), filters), 0, 0)
+      return canvas
+    }
+    // Full-size rasters are only drawn once per export, so they aren't kept
+    return resolution === 'production' ? filterImage() : cacheRaster(sourceKey(layer), filterImage)
+  }
+  return cacheRaster(sourceKey(layer), () => layer.type === 'vector' ? rasterizeVector(layer) : rasterizeText(layer))
+}
+
+/**
+ * Produces the bitmap for a layer, after etch processing. Both the 2D designer
+ * and the 3D texture draw from this, so they always show the same pixels.
+ * `panelSize` sets the physical scale that halftone screens are computed at.
+ */
+export async function rasterizeLayer(layer: DesignLayer, panelSize: PanelSizeMm, resolution: RasterResolution = 'preview'): Promise<LayerRaster> {
+  const source = await rasterizeSource(layer, resolution)
+  const processing = layer.processing
+  if (!processing || processing.mode === 'none') {
+    return source
+  }
+
+  const sourceSize = getRasterSize(source)
+  const maxPx = resolution === 'production' ? Infinity : MAX_PROCESS_PX
+  const fit = Math.min(1, maxPx / Math.max(sourceSize.width, sourceSize.height))
+  const width = Math.max(1, Math.round(sourceSize.width * fit))
+  const height = Math.max(1, Math.round(sourceSize.height * fit))
+  const printSize = layerPrintSizeMm(layer, { width, height }, panelSize)
+  const pixelsPerInch = width / (printSize.width / MM_PER_INCH)
+
+  // Only the halftone screen depends on physical size, so other modes survive resizing
+  const screenKey = processing.mode === 'halftone' ? Math.round((pixelsPerInch / processing.lpi) * 4) : ''
+  const key = `${sourceKey(layer)}|${JSON.stringify(processing)}|${screenKey}`
+
+  const processImage = async () => {
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available')
+    }
+
+    ctx.drawImage(source, 0, 0, width, height)
+    const processed = processEtchImage(ctx.getImageData(0, 0, width, height), processing, pixelsPerInch)
+    ctx.putImageData(processed, 0, 0)
+    return canvas
+  }
+  return resolution === 'production' ? processImage() : cacheRaster(key, processImage)
+}
+
+/**
+ * Box size (in panel percent) that shows a text layer at its font size.
+ * `panelAspect` is the panel's width divided by its height.
+ */
+export async function measureTextLayer(layer: TextLayer, panelAspect: number): Promise<{ width: number, height: number }> {
+  const raster = await rasterizeSource(layer)
+  const { width, height } = getRasterSize(raster)
+  return {
+    width: (width / TEXT_EM_PX) * layer.fontSize / panelAspect,
+    height: (height / TEXT_EM_PX) * layer.fontSize
+  }
+}
+
+/**
+ * A layer's bitmap for the production file, as a PNG data URL: the same
+ * processing the designer and 3D preview show, rebuilt from the original
+ * upload at its full resolution, with etched pixels black, the colour laser
+ * software etches, rather than the on-screen frost.
+ */
+export async function rasterizeLayerForProduction(layer: DesignLayer, panelSize: PanelSizeMm): Promise<string> {
+  const raster = await rasterizeLayer(layer, panelSize, 'production')
+  const { width, height } = getRasterSize(raster)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+
+  ctx.drawImage(raster, 0, 0, width, height)
+  if (layer.processing && layer.processing.mode !== 'none') {
+    // Keeps each pixel's coverage, only the colour changes
+    ctx.globalCompositeOperation = 'source-in'
+    ctx.fillStyle = '#000000'
+    ctx.fillRect(0, 0, width, height)
+  }
+  return canvas.toDataURL('image/png')
+}
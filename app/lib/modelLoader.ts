@@ -0,0 +1,149 @@
+import * as THREE from 'three'
+import { GLTF, GLTFLoader } from 'three/addons/loaders/GLTFLoader.js'
+import { DRACOLoader } from 'three/addons/loaders/DRACOLoader.js'
+import { KTX2Loader } from 'three/addons/loaders/KTX2Loader.js'
+import { MeshoptDecoder } from 'three/addons/libs/meshopt_decoder.module.js'
+import { BROWSER_STORAGE_PREFIX } from './brand'
+import { LoadProgress } from './viewer'
+
+// Copied from three/examples/jsm/libs into public/ on install (scripts/copyDecoders.mjs), so compressed models never wait on a third-party host
+export const DRACO_DECODER_PATH = '/decoders/draco/'
+export const BASIS_TRANSCODER_PATH = '/decoders/basis/'
+
+const MODEL_CACHE_NAME = `${BROWSER_STORAGE_PREFIX}-models`
+
+// Part of every cache key; bump it to make every browser fetch its models afresh
+const MODEL_CACHE_VERSION = '1'
+
+// Marks the version in a cache key; never sent to the server
+const VERSION_PARAM = '__modelVersion'
+
+export interface ModelLoadOptions {
+  // Kept alongside the URL in the cache key, so a model replaced at the same URL is fetched again
+  version?: string
+  onProgress?: (progress: LoadProgress) => void
+  signal?: AbortSignal
+}
+
+/** Only models served over http(s) are cached; blob: URLs of files being uploaded aren't worth keeping. */
+function isCacheable(url: URL): boolean {
+  return (url.protocol === 'http:' || url.protocol === 'https:') && typeof caches !== 'undefined'
+}
+
+function getCacheKey(url: URL, version?: string): string {
+  const key = new URL(url)
+  key.searchParams.set(VERSION_PARAM, version ? `${MODEL_CACHE_VERSION}-${version}` : MODEL_CACHE_VERSION)
+  return key.href
+}
+
+async function openModelCache(): Promise<Cache | null> {
+  try {
+    return await caches.open(MODEL_CACHE_NAME)
+  } catch (error) {
+    // Private windows and insecure origins can refuse storage; the model is just fetched each time
+    console.warn('Model cache unavailable:', error)
+    return null
+  }
+}
+
+/** Keeps one version of each model: drops the others cached for the same URL. */
+async function storeModel(cache: Cache, url: URL, cacheKey: string, bytes: ArrayBuffer, contentType: string | null) {
+  const keys = await cache.keys()
+  await Promise.all(keys.map(request => {
+    const cached = new URL(request.url)
+    cached.searchParams.delete(VERSION_PARAM)
+    return cached.href === url.href && request.url !== cacheKey ? cache.delete(request) : Promise.resolve(false)
+  }))
+  await cache.put(cacheKey, new Response(bytes, {
+    headers: { 'Content-Type': contentType || 'model/gltf-binary' }
+  }))
+}
+
+/** Reads a response body as it arrives, reporting each chunk. */
+async function readWithProgress(response: Response, onProgress?: (progress: LoadProgress) => void): Promise<ArrayBuffer> {
+  const total = parseInt(response.headers.get('Content-Length') || '0') || 0
+  if (!response.body) {
+    const bytes = await response.arrayBuffer()
+    onProgress?.({ loaded: bytes.byteLength, total: bytes.byteLength })
+    return bytes
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+  onProgress?.({ loaded, total })
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    loaded += value.byteLength
+    // Compressed responses report the compressed length, so never claim more than 100%
+    onProgress?.({ loaded, total: total >= loaded ? total : 0 })
+  }
+
+  const bytes = new Uint8Array(loaded)
+  let offset = 0
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  })
+  onProgress?.({ loaded, total: loaded })
+  return bytes.buffer
+}
+
+/**
+ * A model file's bytes, from the browser's model cache when this URL and
+ * version were downloaded before, otherwise from the network (then cached).
+ */
+export async function fetchModel(modelPath: string, options: ModelLoadOptions = {}): Promise<ArrayBuffer> {
+  const { version, onProgress, signal } = options
+  const url = new URL(modelPath, window.location.href)
+  const cacheKey = getCacheKey(url, version)
+  const cache = isCacheable(url) ? await openModelCache() : null
+
+  const cached = await cache?.match(cacheKey)
+  if (cached) {
+    const bytes = await cached.arrayBuffer()
+    onProgress?.({ loaded: bytes.byteLength, total: bytes.byteLength })
+    return bytes
+  }
+
+  const response = await fetch(url.href, { signal })
+  if (!response.ok) {
+    throw new Error(`Failed to load 3D model: ${modelPath} (${response.status} ${response.statusText})`)
+  }
+  const bytes = await readWithProgress(response, onProgress)
+
+  if (cache) {
+    // A full quota shouldn't fail a model that has already downloaded
+    await storeModel(cache, url, cacheKey, bytes, response.headers.get('Content-Type')).catch(error => {
+      console.warn('Failed to cache model:', error)
+    })
+  }
+  return bytes
+}
+
+/**
+ * Downloads (or reads from cache) and parses a glTF/GLB model. Draco- and
+ * meshopt-compressed geometry and KTX2 textures are decoded with the copies
+ * of three's decoders the app hosts itself.
+ */
+export async function loadModel(modelPath: string, renderer: THREE.WebGLRenderer, options: ModelLoadOptions = {}): Promise<GLTF> {
+  const bytes = await fetchModel(modelPath, options)
+
+  const dracoLoader = new DRACOLoader().setDecoderPath(DRACO_DECODER_PATH)
+  const ktx2Loader = new KTX2Loader().setTranscoderPath(BASIS_TRANSCODER_PATH).detectSupport(renderer)
+  const loader = new GLTFLoader()
+    .setDRACOLoader(dracoLoader)
+    .setKTX2Loader(ktx2Loader)
+    .setMeshoptDecoder(MeshoptDecoder)
+
+  try {
+    // External .bin files and textures are resolved next to the model
+    return await loader.parseAsync(bytes, THREE.LoaderUtils.extractUrlBase(modelPath))
+  } finally {
+    // The decoders run in workers, which would otherwise outlive the viewer
+    dracoLoader.dispose()
+    ktx2Loader.dispose()
+  }
+}
@@ -0,0 +1,99 @@
+import * as THREE from 'three'
+import { PanelSizeMm } from './panels'
+
+// How far a mesh's proportions may stray from the panel's before the preview is noticeably stretched
+const ASPECT_TOLERANCE = 0.1
+
+interface PanelFrame {
+  // Points out of the panel's outer face
+  normal: THREE.Vector3
+  // The 2D canvas's x and y (upwards) axes, as seen from outside
+  right: THREE.Vector3
+  up: THREE.Vector3
+}
+
+const AXES = ['x', 'y', 'z'] as const
+
+/**
+ * Lays the 2D editor's canvas onto a panel in the scene. The panel's thinnest
+ * side is its normal, pointing away from the model's centre. The canvas's top
+ * is up for upright panels and towards the back (-z) for lying ones, seen from
+ * outside.
+ */
+export function getPanelFrame(box: THREE.Box3, modelCenter: THREE.Vector3): PanelFrame {
+  const size = box.getSize(new THREE.Vector3())
+  const center = box.getCenter(new THREE.Vector3())
+  const axis = AXES.reduce((thinnest, current) => size[current] < size[thinnest] ? current : thinnest)
+
+  const normal = new THREE.Vector3()
+  normal[axis] = center[axis] >= modelCenter[axis] ? 1 : -1
+  const up = axis === 'y' ? new THREE.Vector3(0, 0, -1) : new THREE.Vector3(0, 1, 0)
+  const right = new THREE.Vector3().crossVectors(up, normal)
+
+  return { normal, right, up }
+}
+
+/**
+ * Gives a panel's meshes planar UVs across its outer face, in the 2D editor's
+ * frame: u runs left to right and v bottom to top over the panel, so a texture
+ * composed from the design lands where the layers were placed whatever UVs the
+ * model was exported with. A panel modelled in several meshes is projected as
+ * one, so its design stays continuous.
+ *
+ * The meshes get projected copies of their geometry; the originals are kept
+ * in `userData.originalGeometry`. Meshes already projected are left alone.
+ */
+export function projectPanelUVs(meshes: THREE.Mesh[], modelCenter: THREE.Vector3, panelSize: PanelSizeMm) {
+  if (meshes.length === 0 || meshes.every(mesh => mesh.userData.originalGeometry)) return
+
+  const box = new THREE.Box3()
+  meshes.forEach(mesh => box.expandByObject(mesh))
+  const { right, up } = getPanelFrame(box, modelCenter)
+
+  // Where each vertex falls on the face, in scene units
+  const projected = meshes.map(mesh => {
+    mesh.updateWorldMatrix(true, false)
+    const position = mesh.geometry.getAttribute('position')
+    const vertex = new THREE.Vector3()
+    const coords = new Float32Array(position.count * 2)
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld)
+      coords[i * 2] = vertex.dot(right)
+      coords[i * 2 + 1] = vertex.dot(up)
+    }
+    return coords
+  })
+
+  let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity
+  projected.forEach(coords => {
+    for (let i = 0; i < coords.length; i += 2) {
+      minU = Math.min(minU, coords[i])
+      maxU = Math.max(maxU, coords[i])
+      minV = Math.min(minV, coords[i + 1])
+      maxV = Math.max(maxV, coords[i + 1])
+    }
+  })
+  const spanU = Math.max(maxU - minU, Number.EPSILON)
+  const spanV = Math.max(maxV - minV, Number.EPSILON)
+
+  const meshAspect = spanU / spanV
+  const panelAspect = panelSize.width / panelSize.height
+  if (Math.abs(meshAspect / panelAspect - 1) > ASPECT_TOLERANCE) {
+    console.warn(`Panel is ${panelSize.width}×${panelSize.height}mm but its mesh is ${meshAspect.toFixed(2)}:1, so the preview is stretched:`,
+      meshes.map(mesh => mesh.name).join(', '))
+  }
+
+  meshes.forEach((mesh, index) => {
+    const coords = projected[index]
+    for (let i = 0; i < coords.length; i += 2) {
+      coords[i] = (coords[i] - minU) / spanU
+      coords[i + 1] = (coords[i + 1] - minV) / spanV
+    }
+
+    // A copy, since geometry can be shared with meshes that aren't part of the panel
+    const geometry = mesh.geometry.clone()
+    geometry.setAttribute('uv', new THREE.BufferAttribute(coords, 2))
+    mesh.userData.originalGeometry = mesh.geometry
+    mesh.geometry = geometry
+  })
+}
@@ -0,0 +1,228 @@
+import { DesignLayer, PanelType } from './design'
+
+export interface PanelSizeMm {
+  width: number
+  height: number
+}
+
+/**
+ * An area the laser must not touch, such as a vent, screw hole or stamped
+ * logo. Coordinates are millimetres from the panel's top-left corner; `x`/`y`
+ * is the top-left of a rect and the centre of a circle.
+ */
+export type NoEtchZone =
+  | { shape: 'rect', label: string, x: number, y: number, width: number, height: number }
+  | { shape: 'circle', label: string, x: number, y: number, radius: number }
+
+/** Physical shape of a panel, all in millimetres. */
+export interface PanelGeometry extends PanelSizeMm {
+  // The outline is a rounded rectangle; 0 gives square-cut corners
+  cornerRadius: number
+  // Artwork should stay at least this far inside the outline
+  safeMargin: number
+  noEtchZones: NoEtchZone[]
+}
+
+/** How a panel is drawn in the designer and finished in the 3D preview. */
+export type PanelSurface = 'metal' | 'glass'
+
+export interface ProductPanel extends PanelGeometry {
+  panelType: PanelType
+  // Shown to customers, e.g. "Front Panel"
+  label: string
+  surface: PanelSurface
+  // What the operator sets the laser up for, e.g. "Powder-coated steel"
+  material: string
+}
+
+export type PanelPreset = Omit<ProductPanel, 'panelType'>
+
+// Nominal panels of a mid tower, offered to admins and used where a product doesn't say otherwise
+export const PANEL_PRESETS: Record<string, PanelPreset> = {
+  back: {
+    label: 'Back Panel', surface: 'metal', material: 'Powder-coated steel',
+    width: 440, height: 460, cornerRadius: 0, safeMargin: 10, noEtchZones: []
+  },
+  glass: {
+    label: 'Glass Panel', surface: 'glass', material: 'Tempered glass',
+    width: 410, height: 440, cornerRadius: 6, safeMargin: 10, noEtchZones: []
+  },
+  front: {
+    label: 'Front Panel', surface: 'metal', material: 'Powder-coated steel',
+    width: 230, height: 460, cornerRadius: 4, safeMargin: 8, noEtchZones: []
+  },
+  top: {
+    label: 'Top Panel', surface: 'metal', material: 'Powder-coated steel',
+    width: 230, height: 450, cornerRadius: 0, safeMargin: 10, noEtchZones: []
+  },
+  'psu-shroud': {
+    label: 'PSU Shroud', surface: 'metal', material: 'Powder-coated steel',
+    width: 380, height: 90, cornerRadius: 0, safeMargin: 5, noEtchZones: []
+  },
+  'left-side': {
+    label: 'Left Side Panel', surface: 'metal', material: 'Powder-coated steel',
+    width: 440, height: 460, cornerRadius: 0, safeMargin: 10, noEtchZones: []
+  },
+  'right-side': {
+    label: 'Right Side Panel', surface: 'metal', material: 'Powder-coated steel',
+    width: 440, height: 460, cornerRadius: 0, safeMargin: 10, noEtchZones: []
+  }
+}
+
+// For panel types outside the presets, which admins name themselves
+const CUSTOM_PANEL: PanelPreset = {
+  label: 'Panel', surface: 'metal', material: 'Powder-coated steel',
+  width: 300, height: 300, cornerRadius: 0, safeMargin: 10, noEtchZones: []
+}
+
+// What products saved before panels were configurable offer
+export const DEFAULT_PANEL_TYPES: PanelType[] = ['back', 'glass']
+
+export const MM_PER_INCH = 25.4
+
+export function getPanelPreset(panelType: PanelType): PanelPreset {
+  return PANEL_PRESETS[panelType] || { ...CUSTOM_PANEL, label: panelType }
+}
+
+const toNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+const toText = (value: unknown, fallback: string) =>
+  typeof value === 'string' && value ? value : fallback
+
+function normalizeZone(zone: Partial<NoEtchZone>): NoEtchZone {
+  const label = zone.label || 'No-etch zone'
+  if (zone.shape === 'circle') {
+    return { shape: 'circle', label, x: toNumber(zone.x, 0), y: toNumber(zone.y, 0), radius: toNumber(zone.radius, 5) }
+  }
+  const rect = zone as Partial<Extract<NoEtchZone, { shape: 'rect' }>>
+  return {
+    shape: 'rect',
+    label,
+    x: toNumber(rect.x, 0),
+    y: toNumber(rect.y, 0),
+    width: toNumber(rect.width, 10),
+    height: toNumber(rect.height, 10)
+  }
+}
+
+export function createProductPanel(panelType: PanelType): ProductPanel {
+  return { panelType, ...getPanelPreset(panelType) }
+}
+
+/**
+ * Reads a product's `panels` field from Firestore, in the product's order and
+ * with preset values filled in. Products saved before panels were
+ * configurable get the original back and glass panels.
+ */
+export function normalizeProductPanels(panels: unknown): ProductPanel[] {
+  const stored = (Array.isArray(panels) ? panels as Partial<ProductPanel>[] : [])
+    .filter(panel => typeof panel?.panelType === 'string' && panel.panelType)
+  if (stored.length === 0) {
+    return DEFAULT_PANEL_TYPES.map(createProductPanel)
+  }
+
+  const seen = new Set<PanelType>()
+  return stored.flatMap(panel => {
+    const panelType = panel.panelType as PanelType
+    if (seen.has(panelType)) return []
+    seen.add(panelType)
+
+    const preset = getPanelPreset(panelType)
+    return [{
+      panelType,
+      label: toText(panel.label, preset.label),
+      surface: panel.surface === 'glass' || panel.surface === 'metal' ? panel.surface : preset.surface,
+      material: toText(panel.material, preset.material),
+      width: toNumber(panel.width, preset.width),
+      height: toNumber(panel.height, preset.height),
+      cornerRadius: toNumber(panel.cornerRadius, preset.cornerRadius),
+      safeMargin: toNumber(panel.safeMargin, preset.safeMargin),
+      noEtchZones: Array.isArray(panel.noEtchZones) ? panel.noEtchZones.map(normalizeZone) : preset.noEtchZones
+    }]
+  })
+}
+
+/** The product's panel of a type, or its preset when the product doesn't have one. */
+export function getProductPanel(panels: ProductPanel[] | undefined, panelType: PanelType): ProductPanel {
+  return panels?.find(panel => panel.panelType === panelType) || createProductPanel(panelType)
+}
+
+export function getPanelGeometry(panels: ProductPanel[] | undefined, panelType: PanelType): PanelGeometry {
+  return getProductPanel(panels, panelType)
+}
+
+export interface LayerConflicts {
+  zones: NoEtchZone[]
+  outsideSafeArea: boolean
+}
+
+/**
+ * Checks a layer's rotated box against the panel's safe area and no-etch
+ * zones. The whole box counts, so a letterboxed image can warn a little early.
+ */
+export function findLayerConflicts(layer: DesignLayer, geometry: PanelGeometry): LayerConflicts {
+  const cx = (layer.position.x / 100) * geometry.width
+  const cy = (layer.position.y / 100) * geometry.height
+  const halfWidth = (layer.scale.width / 100) * geometry.width / 2
+  const halfHeight = (layer.scale.height / 100) * geometry.height / 2
+  const theta = layer.rotation * Math.PI / 180
+  const cos = Math.cos(theta)
+  const sin = Math.sin(theta)
+
+  const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => ({
+    x: cx + sx * halfWidth * cos - sy * halfHeight * sin,
+    y: cy + sx * halfWidth * sin + sy * halfHeight * cos
+  }))
+
+  const margin = geometry.safeMargin
+  const outsideSafeArea = corners.some(corner =>
+    corner.x < margin || corner.y < margin ||
+    corner.x > geometry.width - margin || corner.y > geometry.height - margin
+  )
+
+  const zones = geometry.noEtchZones.filter(zone => {
+    if (zone.shape === 'circle') {
+      // Nearest point of the box to the circle's centre, worked out in the box's own frame
+      const dx = zone.x - cx
+      const dy = zone.y - cy
+      const localX = dx * cos + dy * sin
+      const localY = -dx * sin + dy * cos
+      const nearestX = Math.max(-halfWidth, Math.min(halfWidth, localX))
+      const nearestY = Math.max(-halfHeight, Math.min(halfHeight, localY))
+      return Math.hypot(localX - nearestX, localY - nearestY) < zone.radius
+    }
+
+    // Separating axis test between the rotated box and the axis-aligned zone
+    const zoneCorners = [
+      { x: zone.x, y: zone.y },
+      { x: zone.x + zone.width, y: zone.y },
+      { x: zone.x + zone.width, y: zone.y + zone.height },
+      { x: zone.x, y: zone.y + zone.height }
+    ]
+    const axes = [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: cos, y: sin }, { x: -sin, y: cos }]
+    return axes.every(axis => {
+      const project = (points: { x: number, y: number }[]) => points.map(p => p.x * axis.x + p.y * axis.y)
+      const a = project(corners)
+      const b = project(zoneCorners)
+      return Math.max(...a) > Math.min(...b) && Math.max(...b) > Math.min(...a)
+    })
+  })
+
+  return { zones, outsideSafeArea }
+}
+
+/**
+ * Physical size of a layer's artwork on the panel. Artwork is letterboxed in
+ * its box, so the smaller fit of the two axes wins.
+ */
+export function layerPrintSizeMm(
+  layer: DesignLayer,
+  source: { width: number, height: number },
+  panelSize: PanelSizeMm
+): PanelSizeMm {
+  const boxWidth = (layer.scale.width / 100) * panelSize.width
+  const boxHeight = (layer.scale.height / 100) * panelSize.height
+  const fit = Math.min(boxWidth / source.width, boxHeight / source.height)
+  return { width: source.width * fit, height: source.height * fit }
+}
@@ -0,0 +1,61 @@
+import { DesignData, DesignLayer, ImageLayer, PanelType } from './design'
+import { MM_PER_INCH, PanelSizeMm, ProductPanel, getPanelGeometry, layerPrintSizeMm } from './panels'
+
+export type PrintQuality = 'good' | 'marginal' | 'low'
+
+// Below this, checkout is blocked unless the product sets its own minimum
+export const DEFAULT_MIN_PRINT_DPI = 150
+// At or above this, artwork etches as sharp as the laser can place dots
+export const GOOD_PRINT_DPI = 300
+
+export interface PixelSize {
+  width: number
+  height: number
+}
+
+export interface LayerPrintQuality {
+  layer: ImageLayer
+  panelType: PanelType
+  dpi: number
+  quality: PrintQuality
+}
+
+/** Product minimum from Firestore, falling back to the default for missing or bad values. */
+export function normalizeMinPrintDpi(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : DEFAULT_MIN_PRINT_DPI
+}
+
+/** Source pixels per inch once a layer is scaled to its size on the panel. */
+export function effectiveDpi(layer: DesignLayer, pixelSize: PixelSize, panelSize: PanelSizeMm): number {
+  const printSize = layerPrintSizeMm(layer, pixelSize, panelSize)
+  return pixelSize.width / (printSize.width / MM_PER_INCH)
+}
+
+export function getPrintQuality(dpi: number, minDpi: number): PrintQuality {
+  if (dpi < minDpi) return 'low'
+  return dpi < Math.max(GOOD_PRINT_DPI, minDpi) ? 'marginal' : 'good'
+}
+
+/**
+ * Quality of every visible image layer in a design. Text and vector layers are
+ * resolution independent, so they are never listed. `pixelSizes` fills in
+ * layers saved before their source size was recorded, keyed by image URL.
+ */
+export function getDesignPrintQuality(
+  design: DesignData,
+  productPanels: ProductPanel[] | undefined,
+  minDpi: number,
+  pixelSizes: Record<string, PixelSize> = {}
+): LayerPrintQuality[] {
+  return design.panels.flatMap(panel => {
+    const geometry = getPanelGeometry(productPanels, panel.panelType)
+    return panel.layers.flatMap(layer => {
+      if (layer.type !== 'image' || !layer.visible) return []
+      const pixelSize = layer.pixelSize || pixelSizes[layer.imageUrl]
+      if (!pixelSize) return []
+
+      const dpi = effectiveDpi(layer, pixelSize, geometry)
+      return [{ layer, panelType: panel.panelType, dpi, quality: getPrintQuality(dpi, minDpi) }]
+    })
+  })
+}
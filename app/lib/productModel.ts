@@ -0,0 +1,55 @@
+import { PanelType } from './design'
+
+/** Which panel each mesh of a product's 3D model shows, keyed by mesh name. */
+export type MeshMapping = Record<string, PanelType>
+
+export interface ProductModel {
+  modelPath: string
+  // Changes whenever the file at `modelPath` does, so browsers don't keep a stale cached copy
+  modelVersion?: string
+  meshMapping: MeshMapping
+}
+
+// Shipped with the app, for products saved before they had their own model
+export const BUNDLED_MODEL_PATH = '/3d/Corsair4000D-3D.glb'
+// Bump when the bundled model file is replaced
+const BUNDLED_MODEL_VERSION = '1'
+
+const BUNDLED_MESH_MAPPING: MeshMapping = {
+  Object_44001: 'back',
+  Object_42: 'glass',
+  Object_43: 'glass'
+}
+
+/** Reads a product's `meshMapping` field from Firestore, dropping malformed entries. */
+export function normalizeMeshMapping(value: unknown): MeshMapping {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {}
+  }
+  return Object.fromEntries(Object.entries(value as Record<string, unknown>).filter(
+    (entry): entry is [string, PanelType] => entry[0] !== '' && typeof entry[1] === 'string' && entry[1] !== ''
+  ))
+}
+
+/**
+ * The 3D model a product is previewed on and how its meshes map to panels.
+ * Products without a model of their own fall back to the bundled one.
+ */
+export function getProductModel(product: { model3D?: unknown, modelVersion?: unknown, meshMapping?: unknown }): ProductModel {
+  const meshMapping = normalizeMeshMapping(product.meshMapping)
+  if (typeof product.model3D === 'string' && product.model3D) {
+    // Models uploaded before versions were stored each have their own file name, so the URL alone identifies them
+    const modelVersion = typeof product.modelVersion === 'string' && product.modelVersion ? product.modelVersion : undefined
+    return { modelPath: product.model3D, modelVersion, meshMapping }
+  }
+  return {
+    modelPath: BUNDLED_MODEL_PATH,
+    modelVersion: BUNDLED_MODEL_VERSION,
+    meshMapping: Object.keys(meshMapping).length > 0 ? meshMapping : BUNDLED_MESH_MAPPING
+  }
+}
+
+/** Mesh names mapped to each panel type. */
+export function getPanelMeshNames(meshMapping: MeshMapping, panelType: PanelType): string[] {
+  return Object.entries(meshMapping).flatMap(([meshName, mapped]) => mapped === panelType ? [meshName] : [])
+}
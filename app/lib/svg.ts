@@ -0,0 +1,219 @@
+export interface SvgViewBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface SanitizedSvg {
+  svg: string
+  viewBox: SvgViewBox
+}
+
+// Design documents are capped at 1 MiB by Firestore, so leave room for the rest
+export const MAX_SVG_BYTES = 512 * 1024
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+// Elements that can run code, embed other documents or animate attributes
+const BLOCKED_ELEMENTS = [
+  'script', 'foreignObject', 'iframe', 'object', 'embed', 'audio', 'video',
+  'canvas', 'animate', 'animateMotion', 'animateTransform', 'set', 'discard'
+]
+
+const HREF_ATTRIBUTES = ['href', 'xlink:href', 'src']
+
+function isExternalUrl(value: string): boolean {
+  const trimmed = value.trim()
+  return trimmed !== '' && !trimmed.startsWith('#') && !/^data:image\/(png|jpe?g|gif|webp);/i.test(trimmed)
+}
+
+// Drops any url(...) that points outside the document
+function stripExternalCssUrls(css: string): string {
+  return css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, _quote, url: string) => (isExternalUrl(url) ? 'none' : match))
+    .replace(/expression\s*\(/gi, '')
+}
+
+function parseViewBox(root: Element): SvgViewBox | null {
+  const attr = root.getAttribute('viewBox')
+  if (attr) {
+    const [x, y, width, height] = attr.split(/[\s,]+/).map(Number)
+    if ([x, y, width, height].every(Number.isFinite) && width > 0 && height > 0) {
+      return { x, y, width, height }
+    }
+  }
+
+  const width = parseFloat(root.getAttribute('width') || '')
+  const height = parseFloat(root.getAttribute('height') || '')
+  if (width > 0 && height > 0) {
+    return { x: 0, y: 0, width, height }
+  }
+
+  return null
+}
+
+/**
+ * Parses user-supplied SVG and strips anything that could execute or load
+ * external resources. The result is self-contained, so it renders the same in
+ * the browser, in the 3D texture and in production exports.
+ */
+export function sanitizeSvg(markup: string): SanitizedSvg {
+  if (new Blob([markup]).size > MAX_SVG_BYTES) {
+    throw new Error('SVG file is too large. Please simplify it or keep it under 512 KB.')
+  }
+
+  const parsed = new DOMParser().parseFromString(markup, 'image/svg+xml')
+  const root = parsed.documentElement
+
+  if (parsed.getElementsByTagName('parsererror').length > 0 || root.namespaceURI !== SVG_NS || root.localName !== 'svg') {
+    throw new Error('The file is not a valid SVG document.')
+  }
+
+  BLOCKED_ELEMENTS.forEach(tag => {
+    Array.from(root.getElementsByTagNameNS(SVG_NS, tag)).forEach(el => el.remove())
+  })
+
+  // Anything outside the SVG namespace (XHTML islands etc.) goes too
+  Array.from(root.querySelectorAll('*')).forEach(el => {
+    if (el.namespaceURI !== SVG_NS) {
+      el.remove()
+    }
+  })
+
+  const elements = [root, ...Array.from(root.querySelectorAll('*'))]
+  elements.forEach(el => {
+    Array.from(el.attributes).forEach(attr => {
+      const name = attr.name.toLowerCase()
+      const value = attr.value
+
+      if (name.startsWith('on') || /^\s*javascript:/i.test(value)) {
+        el.removeAttribute(attr.name)
+      } else if (HREF_ATTRIBUTES.includes(name) && isExternalUrl(value)) {
+        el.removeAttribute(attr.name)
+      } else if (name === 'style' || /url\(/i.test(value)) {
+        el.setAttribute(attr.name, stripExternalCssUrls(value))
+      }
+    })
+
+    if (el.localName === 'style') {
+      el.textContent = stripExternalCssUrls(el.textContent || '')
+    }
+  })
+
+  const viewBox = parseViewBox(root)
+  if (!viewBox) {
+    throw new Error('The SVG needs a viewBox or a width and height.')
+  }
+
+  // Pin the intrinsic size to the viewBox so every renderer agrees on the aspect
+  root.setAttribute('viewBox', `${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`)
+  root.setAttribute('width', String(viewBox.width))
+  root.setAttribute('height', String(viewBox.height))
+
+  return {
+    svg: new XMLSerializer().serializeToString(root),
+    viewBox
+  }
+}
+
+// Everything the etched artwork needs; anything else is dropped, contents and all
+const ALLOWED_ELEMENTS = [
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc', 'path', 'rect', 'circle', 'ellipse', 'line',
+  'polyline', 'polygon', 'text', 'tspan', 'textPath', 'image', 'clipPath', 'mask', 'pattern',
+  'linearGradient', 'radialGradient', 'stop'
+]
+
+const ALLOWED_ATTRIBUTES = [
+  'id', 'class', 'xmlns', 'xmlns:xlink', 'version', 'viewBox', 'preserveAspectRatio', 'transform',
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'dx', 'dy', 'width', 'height',
+  'd', 'points', 'pathLength', 'offset', 'href', 'xlink:href', 'style', 'display', 'visibility', 'opacity',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap',
+  'stroke-linejoin', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset', 'clip-path', 'clip-rule',
+  'mask', 'stop-color', 'stop-opacity', 'font-family', 'font-size', 'font-weight', 'font-style',
+  'text-anchor', 'dominant-baseline', 'letter-spacing', 'startOffset', 'textLength', 'lengthAdjust',
+  'xml:space', 'gradientUnits', 'gradientTransform', 'spreadMethod', 'patternUnits',
+  'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits', 'maskContentUnits'
+]
+
+// The entities XML knows without a DTD; any other & is escaped
+const escapeMarkup = (value: string) => value
+  .replace(/&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);)/gi, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+// Only references within the document, and inline bitmaps for <image>
+function isAllowedValue(name: string, value: string): boolean {
+  if (/javascript:|expression\s*\(|@import|\\/i.test(value)) return false
+  if (/url\(\s*['"]?(?!#)/i.test(value)) return false
+  if (name === 'href' || name === 'xlink:href') {
+    return value.trim().startsWith('#') || /^data:image\/(png|jpe?g|gif|webp);base64,[A-Za-z0-9+/=\s]*$/i.test(value.trim())
+  }
+  return true
+}
+
+/**
+ * Rebuilds SVG markup from an allowlist of elements and attributes, without
+ * a DOM, for the server. Stored artwork went through `sanitizeSvg` when it
+ * was uploaded, but design documents are written by their owners, so the
+ * markup can't be trusted by the time it's exported. Returns '' when there
+ * is no <svg> root.
+ */
+export function cleanSvgMarkup(markup: string): string {
+  const source = markup.replace(/<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>/gi, '')
+  const tokenPattern = /<(\/?)([\w:-]+)((?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<|[^<]+/g
+  const attributePattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  const open: string[] = []
+  // Depth inside an element that was dropped, whose contents go with it
+  let skipping = 0
+  let output = ''
+  let match: RegExpExecArray | null
+
+  while ((match = tokenPattern.exec(source))) {
+    const [token, closing, tag, rawAttributes, selfClosing] = match
+    if (!tag) {
+      // Text, or a stray '<' that isn't part of a tag
+      if (skipping === 0 && open.length > 0) output += escapeMarkup(token)
+      continue
+    }
+
+    if (closing) {
+      if (skipping > 0) {
+        skipping--
+      } else if (open[open.length - 1] === tag) {
+        open.pop()
+        output += `</${tag}>`
+        // Anything after the root element is ignored
+        if (open.length === 0) break
+      }
+      continue
+    }
+
+    if (skipping > 0 || !ALLOWED_ELEMENTS.includes(tag) || (open.length === 0 && tag !== 'svg')) {
+      if (!selfClosing) skipping++
+      continue
+    }
+
+    let attributes = ''
+    let attribute: RegExpExecArray | null
+    while ((attribute = attributePattern.exec(rawAttributes))) {
+      const [, name, doubleQuoted, singleQuoted] = attribute
+      const value = doubleQuoted ?? singleQuoted
+      if (ALLOWED_ATTRIBUTES.includes(name) && isAllowedValue(name, value)) {
+        attributes += ` ${name}="${escapeMarkup(value)}"`
+      }
+    }
+
+    if (selfClosing) {
+      output += `<${tag}${attributes}/>`
+    } else {
+      output += `<${tag}${attributes}>`
+      open.push(tag)
+    }
+    if (open.length === 0) break
+  }
+
+  return output + open.reverse().map(tag => `</${tag}>`).join('')
+}
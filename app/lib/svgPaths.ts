@@ -0,0 +1,362 @@
+// Flattens SVG artwork into polylines without a DOM, for CAD formats that
+// have no notion of curves or SVG markup. Input is expected to have gone
+// through `sanitizeSvg`, so a simple tag scanner is enough.
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface Polyline {
+  points: Point[]
+  closed: boolean
+}
+
+// [a, b, c, d, e, f] as in SVG's matrix(a b c d e f)
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+// Line segments per curve; plenty for panel-sized artwork at laser resolution
+const CURVE_SEGMENTS = 24
+// Containers whose children are referenced elsewhere rather than drawn in place
+const NON_RENDERED = ['defs', 'clipPath', 'mask', 'symbol', 'pattern', 'marker', 'linearGradient', 'radialGradient', 'style', 'title', 'desc', 'metadata']
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ]
+}
+
+function apply(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] }
+}
+
+const parseNumbers = (value: string) => (value.match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || []).map(Number)
+
+function parseTransform(value: string | undefined): Matrix {
+  if (!value) return IDENTITY
+  let matrix = IDENTITY
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(value))) {
+    const args = parseNumbers(match[2])
+    let next: Matrix = IDENTITY
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) next = args as Matrix
+        break
+      case 'translate':
+        next = [1, 0, 0, 1, args[0] || 0, args[1] || 0]
+        break
+      case 'scale':
+        next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0]
+        break
+      case 'rotate': {
+        const angle = (args[0] || 0) * Math.PI / 180
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        const [cx = 0, cy = 0] = args.slice(1)
+        next = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy]
+        break
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan((args[0] || 0) * Math.PI / 180), 1, 0, 0]
+        break
+      case 'skewY':
+        next = [1, Math.tan((args[0] || 0) * Math.PI / 180), 0, 1, 0, 0]
+        break
+    }
+    matrix = multiply(matrix, next)
+  }
+  return matrix
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source))) {
+    attributes[match[1]] = match[3] ?? match[4]
+  }
+  return attributes
+}
+
+// Endpoint-parameterised elliptical arc to points, per the SVG implementation notes
+function arcPoints(from: Point, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, to: Point): Point[] {
+  if (rx === 0 || ry === 0) return [to]
+  rx = Math.abs(rx)
+  ry = Math.abs(ry)
+  const phi = rotation * Math.PI / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+  const dx = (from.x - to.x) / 2
+  const dy = (from.y - to.y) / 2
+  const x1 = cos * dx + sin * dy
+  const y1 = -sin * dx + cos * dy
+
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator))
+  const cx1 = factor * (rx * y1) / ry
+  const cy1 = factor * -(ry * x1) / rx
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+  const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry)
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry)
+  if (!sweep && delta > 0) delta -= Math.PI * 2
+  if (sweep && delta < 0) delta += Math.PI * 2
+
+  const points: Point[] = []
+  for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+    const t = start + delta * (i / CURVE_SEGMENTS)
+    points.push({
+      x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+      y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+    })
+  }
+  return points
+}
+
+function cubicPoints(p0: Point, p1: Point, p2: Point, p3: Point): Point[] {
+  const points: Point[] = []
+  for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+    const t = i / CURVE_SEGMENTS
+    const u = 1 - t
+    points.push({
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y
+    })
+  }
+  return points
+}
+
+const quadraticPoints = (p0: Point, p1: Point, p2: Point) => cubicPoints(
+  p0,
+  { x: p0.x + (2 / 3) * (p1.x - p0.x), y: p0.y + (2 / 3) * (p1.y - p0.y) },
+  { x: p2.x + (2 / 3) * (p1.x - p2.x), y: p2.y + (2 / 3) * (p1.y - p2.y) },
+  p2
+)
+
+/** Converts path data into polylines, one per subpath. */
+export function flattenPathData(d: string): Polyline[] {
+  const polylines: Polyline[] = []
+  const tokens = d.match(/[a-df-z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || []
+  let index = 0
+  let command = ''
+  let current: Point = { x: 0, y: 0 }
+  let start: Point = { x: 0, y: 0 }
+  let lastControl: Point | null = null
+  let polyline: Polyline | null = null
+
+  const next = () => Number(tokens[index++])
+  const hasNumber = () => index < tokens.length && !/^[a-z]$/i.test(tokens[index])
+  const lineTo = (points: Point[]) => {
+    if (!polyline) {
+      polyline = { points: [current], closed: false }
+      polylines.push(polyline)
+    }
+    polyline.points.push(...points)
+    current = points[points.length - 1]
+  }
+
+  while (index < tokens.length) {
+    // A command letter followed by more numbers repeats itself
+    if (!hasNumber()) {
+      command = tokens[index++]
+    } else if (!command) {
+      break
+    }
+
+    const relative = command === command.toLowerCase()
+    const base = relative ? current : { x: 0, y: 0 }
+    const point = () => {
+      const x = next()
+      const y = next()
+      return { x: base.x + x, y: base.y + y }
+    }
+
+    switch (command.toUpperCase()) {
+      case 'M':
+        current = point()
+        start = current
+        polyline = null
+        lastControl = null
+        // Further pairs after a moveto are implicit linetos
+        command = relative ? 'l' : 'L'
+        break
+      case 'L':
+        lineTo([point()])
+        lastControl = null
+        break
+      case 'H':
+        lineTo([{ x: (relative ? current.x : 0) + next(), y: current.y }])
+        lastControl = null
+        break
+      case 'V':
+        lineTo([{ x: current.x, y: (relative ? current.y : 0) + next() }])
+        lastControl = null
+        break
+      case 'C': {
+        const c1 = point()
+        const c2 = point()
+        const end = point()
+        lineTo(cubicPoints(current, c1, c2, end))
+        lastControl = c2
+        break
+      }
+      case 'S': {
+        const c1: Point = lastControl ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y } : current
+        const c2 = point()
+        const end = point()
+        lineTo(cubicPoints(current, c1, c2, end))
+        lastControl = c2
+        break
+      }
+      case 'Q': {
+        const c = point()
+        const end = point()
+        lineTo(quadraticPoints(current, c, end))
+        lastControl = c
+        break
+      }
+      case 'T': {
+        const c: Point = lastControl ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y } : current
+        const end = point()
+        lineTo(quadraticPoints(current, c, end))
+        lastControl = c
+        break
+      }
+      case 'A': {
+        const rx = next()
+        const ry = next()
+        const rotation = next()
+        const largeArc = next() !== 0
+        const sweep = next() !== 0
+        const end = point()
+        lineTo(arcPoints(current, rx, ry, rotation, largeArc, sweep, end))
+        lastControl = null
+        break
+      }
+      case 'Z':
+        if (polyline) {
+          (polyline as Polyline).closed = true
+        }
+        current = start
+        polyline = null
+        lastControl = null
+        continue
+      default:
+        return polylines
+    }
+  }
+
+  return polylines
+}
+
+function ellipsePolyline(cx: number, cy: number, rx: number, ry: number): Polyline {
+  const points: Point[] = []
+  for (let i = 0; i < CURVE_SEGMENTS * 2; i++) {
+    const t = (i / (CURVE_SEGMENTS * 2)) * Math.PI * 2
+    points.push({ x: cx + rx * Math.cos(t), y: cy + ry * Math.sin(t) })
+  }
+  return { points, closed: true }
+}
+
+function shapePolylines(tag: string, attrs: Record<string, string>): Polyline[] {
+  const num = (name: string) => parseFloat(attrs[name] || '0') || 0
+  switch (tag) {
+    case 'path':
+      return attrs.d ? flattenPathData(attrs.d) : []
+    case 'rect': {
+      const x = num('x')
+      const y = num('y')
+      const width = num('width')
+      const height = num('height')
+      const rx = Math.min(num('rx') || num('ry'), width / 2)
+      const ry = Math.min(num('ry') || num('rx'), height / 2)
+      if (rx > 0 && ry > 0) {
+        return flattenPathData(
+          `M${x + rx},${y}H${x + width - rx}A${rx},${ry} 0 0 1 ${x + width},${y + ry}` +
+          `V${y + height - ry}A${rx},${ry} 0 0 1 ${x + width - rx},${y + height}` +
+          `H${x + rx}A${rx},${ry} 0 0 1 ${x},${y + height - ry}V${y + ry}A${rx},${ry} 0 0 1 ${x + rx},${y}Z`
+        )
+      }
+      return [{ points: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }], closed: true }]
+    }
+    case 'circle':
+      return [ellipsePolyline(num('cx'), num('cy'), num('r'), num('r'))]
+    case 'ellipse':
+      return [ellipsePolyline(num('cx'), num('cy'), num('rx'), num('ry'))]
+    case 'line':
+      return [{ points: [{ x: num('x1'), y: num('y1') }, { x: num('x2'), y: num('y2') }], closed: false }]
+    case 'polyline':
+    case 'polygon': {
+      const values = parseNumbers(attrs.points || '')
+      const points: Point[] = []
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        points.push({ x: values[i], y: values[i + 1] })
+      }
+      return points.length > 1 ? [{ points, closed: tag === 'polygon' }] : []
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * Every drawable shape in an SVG document as polylines in viewBox units, with
+ * element transforms applied. Fills, strokes, <use> and embedded images are
+ * ignored; this is outline geometry only.
+ */
+export function flattenSvg(markup: string): Polyline[] {
+  const polylines: Polyline[] = []
+  const stack: { tag: string, matrix: Matrix, hidden: boolean }[] = []
+  const tagPattern = /<(\/?)([\w:-]+)([^>]*?)(\/?)>/g
+  const source = markup.replace(/<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>/g, '')
+  let match: RegExpExecArray | null
+
+  while ((match = tagPattern.exec(source))) {
+    const [, closing, tag, rawAttributes, selfClosing] = match
+    const parent = stack[stack.length - 1]
+
+    if (closing) {
+      // Pop back to the matching open tag
+      const at = stack.map(entry => entry.tag).lastIndexOf(tag)
+      if (at >= 0) stack.length = at
+      continue
+    }
+
+    const attrs = parseAttributes(rawAttributes)
+    // The root <svg> sits at the viewBox origin already; nested ones only translate
+    const own = tag === 'svg' && parent
+      ? multiply([1, 0, 0, 1, parseFloat(attrs.x || '0') || 0, parseFloat(attrs.y || '0') || 0], parseTransform(attrs.transform))
+      : parseTransform(attrs.transform)
+    const matrix = multiply(parent ? parent.matrix : IDENTITY, own)
+    const hidden = (parent?.hidden ?? false) || NON_RENDERED.includes(tag) || attrs.display === 'none'
+
+    if (!hidden) {
+      shapePolylines(tag, attrs).forEach(polyline => {
+        polylines.push({ ...polyline, points: polyline.points.map(point => apply(matrix, point)) })
+      })
+    }
+
+    if (!selfClosing) {
+      stack.push({ tag, matrix, hidden })
+    }
+  }
+
+  return polylines
+}
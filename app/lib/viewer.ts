@@ -0,0 +1,58 @@
+import { PanelDesign, PanelType } from './design'
+import { SnapshotOptions, TurntableOptions } from './viewerCapture'
+import { EnvironmentPreset, InteriorGlow } from './viewerEnvironment'
+
+/** Fixed camera positions around the model, named as seen from the front of the case. */
+export type CameraPreset = 'front' | 'back' | 'left' | 'right' | 'top' | 'three-quarter'
+
+/** Where the camera can be sent: a preset, or square on to one of the product's panels. */
+export type CameraView = CameraPreset | { focusPanel: PanelType }
+
+export const CAMERA_PRESETS: Array<{ preset: CameraPreset, label: string }> = [
+  { preset: 'three-quarter', label: '3/4' },
+  { preset: 'front', label: 'Front' },
+  { preset: 'back', label: 'Back' },
+  { preset: 'left', label: 'Left' },
+  { preset: 'right', label: 'Right' },
+  { preset: 'top', label: 'Top' }
+]
+
+export interface LoadProgress {
+  loaded: number
+  // 0 when the server doesn't say how large the model is
+  total: number
+}
+
+/**
+ * What a page can ask of the 3D viewer it renders. The viewer fills in a
+ * controller ref once its scene exists and clears it when unmounted, so each
+ * viewer on a page has its own.
+ */
+export interface ViewerController {
+  // Draws a panel's design onto the model, replacing what the panel showed
+  applyDesign: (panel: PanelDesign) => Promise<void>
+  // Puts the model's own materials back, on one panel or all of them
+  resetMaterials: (panelType?: PanelType) => void
+  // Flies the camera there, and stops auto-rotating so the view stays put
+  setCameraView: (view: CameraView) => void
+  setAutoRotate: (enabled: boolean) => void
+  setEnvironment: (preset: EnvironmentPreset) => void
+  setInteriorGlow: (glow: InteriorGlow) => void
+  // Pulls the product's panels out of the case, labelled, or puts them back
+  setExploded: (exploded: boolean) => void
+  // The current view as a PNG, at the viewer's own size unless one is given
+  snapshot: (options?: SnapshotOptions) => Promise<Blob>
+  // One full turn of the auto-rotate orbit as a WebM video
+  recordTurntable: (options: TurntableOptions) => Promise<Blob>
+}
+
+/** Events the viewer reports back to the page. */
+export interface ViewerCallbacks {
+  onLoadProgress?: (progress: LoadProgress) => void
+  onLoad?: () => void
+  onError?: (error: Error) => void
+  // A panel of the model was clicked
+  onPanelSelect?: (panelType: PanelType) => void
+  // The viewer's "Back to Design" button; it's hidden without this
+  onBack?: () => void
+}
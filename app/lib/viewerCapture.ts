@@ -0,0 +1,119 @@
+import * as THREE from 'three'
+import { BRAND_NAME } from './brand'
+
+/** What's behind the model in exports; videos can't be transparent, so they use the viewer's own background instead. */
+export type CaptureBackground = 'transparent' | 'branded'
+
+export interface SnapshotOptions {
+  width: number
+  height: number
+  background: CaptureBackground
+}
+
+export interface TurntableOptions extends SnapshotOptions {
+  // How long one full turn takes
+  durationMs: number
+  fps: number
+}
+
+export const SNAPSHOT_SIZES: Array<{ label: string, width: number, height: number }> = [
+  { label: 'HD (1920 × 1080)', width: 1920, height: 1080 },
+  { label: 'Square (2048 × 2048)', width: 2048, height: 2048 },
+  { label: '4K (3840 × 2160)', width: 3840, height: 2160 }
+]
+
+export const TURNTABLE_SIZES: Array<{ label: string, width: number, height: number }> = [
+  { label: '720p (1280 × 720)', width: 1280, height: 720 },
+  { label: '1080p (1920 × 1080)', width: 1920, height: 1080 },
+  { label: 'Square (1080 × 1080)', width: 1080, height: 1080 }
+]
+
+const BRAND_COLOR = '#2563eb'
+
+// Preferred first; browsers differ in which codecs they'll record
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+/** A dark studio gradient with the store's wordmark in the corner, sized to the export. */
+export function createBrandedBackground(width: number, height: number): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+
+  const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2)
+  gradient.addColorStop(0, '#1f2937')
+  gradient.addColorStop(1, '#030712')
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, width, height)
+
+  const fontSize = Math.round(Math.min(width, height) * 0.045)
+  const margin = fontSize
+  ctx.font = `bold ${fontSize}px sans-serif`
+  ctx.textAlign = 'right'
+  ctx.textBaseline = 'bottom'
+  ctx.fillStyle = BRAND_COLOR
+  ctx.fillText(BRAND_NAME, width - margin, height - margin)
+
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.colorSpace = THREE.SRGBColorSpace
+  return texture
+}
+
+export function getTurntableMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null
+  return VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || null
+}
+
+/**
+ * Records a canvas until `isDone` returns true, checked every animation
+ * frame. Whatever draws the canvas keeps doing so; this only listens.
+ */
+export function recordCanvas(canvas: HTMLCanvasElement, fps: number, isDone: () => boolean): Promise<Blob> {
+  const mimeType = getTurntableMimeType()
+  if (!mimeType) {
+    return Promise.reject(new Error('This browser cannot record video'))
+  }
+
+  return new Promise((resolve, reject) => {
+    const stream = canvas.captureStream(fps)
+    const recorder = new MediaRecorder(stream, { mimeType })
+    const chunks: Blob[] = []
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop())
+      resolve(new Blob(chunks, { type: mimeType }))
+    }
+    recorder.onerror = () => {
+      stream.getTracks().forEach(track => track.stop())
+      reject(new Error('Recording failed'))
+    }
+
+    const poll = () => {
+      if (recorder.state !== 'recording') return
+      if (isDone()) {
+        recorder.stop()
+      } else {
+        requestAnimationFrame(poll)
+      }
+    }
+
+    recorder.start()
+    requestAnimationFrame(poll)
+  })
+}
+
+/** Saves a blob under `filename` through a temporary link. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,185 @@
+import * as THREE from 'three'
+import { EXRLoader } from 'three/addons/loaders/EXRLoader.js'
+import { RoomEnvironment } from 'three/addons/environments/RoomEnvironment.js'
+
+export type EnvironmentPreset = 'studio' | 'dark-desk' | 'hdri'
+
+export const ENVIRONMENT_PRESETS: Array<{ preset: EnvironmentPreset, label: string }> = [
+  { preset: 'studio', label: 'Studio' },
+  { preset: 'dark-desk', label: 'Dark Desk' },
+  { preset: 'hdri', label: 'Warehouse' }
+]
+
+// Poly Haven's "warehouse" HDRI as resized by @pmndrs/assets (CC0), bundled as a
+// data URL so the viewer never waits on a third-party host for lighting
+const loadBundledHdri = async () => (await import('@pmndrs/assets/hdri/warehouse.exr')).default
+
+export type GlowEffect = 'static' | 'breathing' | 'rainbow'
+
+export const GLOW_EFFECTS: Array<{ effect: GlowEffect, label: string }> = [
+  { effect: 'static', label: 'Static' },
+  { effect: 'breathing', label: 'Breathing' },
+  { effect: 'rainbow', label: 'Rainbow' }
+]
+
+/** Coloured lights inside the case, as if its RGB fans and strips were on. */
+export interface InteriorGlow {
+  enabled: boolean
+  color: string
+  // 0-100
+  intensity: number
+  effect: GlowEffect
+}
+
+export const DEFAULT_INTERIOR_GLOW: InteriorGlow = {
+  enabled: false,
+  color: '#7c3aed',
+  intensity: 60,
+  effect: 'static'
+}
+
+// Light intensity (candela) at 100%; the case is about 2 scene units tall
+const GLOW_MAX_INTENSITY = 3
+const BREATHING_PERIOD_MS = 4000
+const RAINBOW_PERIOD_MS = 6000
+
+// Where the glow lights sit, as fractions of the case's bounding box: low at the front fans, mid and high at the back
+const GLOW_POSITIONS: Array<[number, number, number]> = [
+  [0.5, 0.15, 0.75],
+  [0.5, 0.5, 0.3],
+  [0.5, 0.85, 0.5]
+]
+
+/**
+ * Lights a scene for one environment preset and returns a function that
+ * removes everything it added. If the bundled HDRI can't be loaded, the
+ * studio setup is used instead; the model is still fine, so that's only a warning.
+ */
+export function applyEnvironment(
+  preset: EnvironmentPreset,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  renderer: THREE.WebGLRenderer
+): () => void {
+  const pmrem = new THREE.PMREMGenerator(renderer)
+  const added: Array<{ parent: THREE.Object3D, light: THREE.Light }> = []
+  const textures: THREE.Texture[] = []
+  const previousBackground = scene.background
+  let disposed = false
+
+  const addLight = (light: THREE.Light, parent: THREE.Object3D = scene) => {
+    parent.add(light)
+    added.push({ parent, light })
+  }
+
+  const setEnvironment = (texture: THREE.Texture, background: THREE.Color | THREE.Texture) => {
+    textures.push(texture)
+    scene.environment = texture
+    scene.background = background
+  }
+
+  const lightStudio = () => {
+    // Soft reflections from a neutral room, so metal has something to show
+    setEnvironment(pmrem.fromScene(new RoomEnvironment(renderer), 0.04).texture, new THREE.Color(0x111111))
+
+    addLight(new THREE.AmbientLight(0xffffff, 1))
+    const keyLight = new THREE.DirectionalLight(0xffffff, 2)
+    keyLight.position.set(5, 5, 5)
+    addLight(keyLight)
+    const backLight = new THREE.DirectionalLight(0xffffff, 1)
+    backLight.position.set(-5, -5, -5)
+    addLight(backLight)
+    // Follows the camera so the side in view is never in shadow
+    addLight(new THREE.PointLight(0xffffff, 1), camera)
+  }
+
+  switch (preset) {
+    case 'dark-desk': {
+      // A dim room lit by a warm desk lamp, where the interior glow carries the scene
+      scene.environment = null
+      scene.background = new THREE.Color(0x050507)
+      addLight(new THREE.AmbientLight(0x8090ff, 0.15))
+      const lamp = new THREE.SpotLight(0xffd9a8, 25, 0, Math.PI / 5, 0.6, 2)
+      lamp.position.set(-1.5, 2.5, 1.5)
+      addLight(lamp)
+      const rim = new THREE.DirectionalLight(0x6080ff, 0.4)
+      rim.position.set(3, 1, -3)
+      addLight(rim)
+      break
+    }
+    case 'hdri':
+      loadBundledHdri().then(url => new EXRLoader().loadAsync(url)).then(
+        (hdri) => {
+          if (disposed) {
+            hdri.dispose()
+            return
+          }
+          hdri.mapping = THREE.EquirectangularReflectionMapping
+          const environment = pmrem.fromEquirectangular(hdri).texture
+          textures.push(hdri)
+          setEnvironment(environment, hdri)
+          scene.backgroundBlurriness = 0.3
+        },
+        (error) => {
+          if (disposed) return
+          console.warn('Failed to load the warehouse environment; using the studio lighting', error)
+          lightStudio()
+        }
+      )
+      // Until the HDRI arrives
+      addLight(new THREE.AmbientLight(0xffffff, 0.5))
+      break
+    default:
+      lightStudio()
+  }
+
+  return () => {
+    disposed = true
+    added.forEach(({ parent, light }) => {
+      parent.remove(light)
+      light.dispose()
+    })
+    textures.forEach(texture => texture.dispose())
+    pmrem.dispose()
+    scene.environment = null
+    scene.background = previousBackground
+    scene.backgroundBlurriness = 0
+  }
+}
+
+/** Point lights spread through the case's interior, to be driven by `updateInteriorGlow`. */
+export function createGlowLights(caseBox: THREE.Box3): THREE.PointLight[] {
+  const size = caseBox.getSize(new THREE.Vector3())
+  return GLOW_POSITIONS.map(([x, y, z]) => {
+    // Reaches across the case but fades before lighting the desk around it
+    const light = new THREE.PointLight(0xffffff, 0, Math.max(size.x, size.y, size.z), 2)
+    light.position.set(
+      caseBox.min.x + size.x * x,
+      caseBox.min.y + size.y * y,
+      caseBox.min.z + size.z * z
+    )
+    return light
+  })
+}
+
+/** Sets the glow lights' colour and brightness for the moment `time` (ms). */
+export function updateInteriorGlow(lights: THREE.PointLight[], glow: InteriorGlow, time: number) {
+  const intensity = glow.enabled ? (glow.intensity / 100) * GLOW_MAX_INTENSITY : 0
+
+  lights.forEach((light, index) => {
+    switch (glow.effect) {
+      case 'breathing':
+        light.color.set(glow.color)
+        light.intensity = intensity * (0.55 + 0.45 * Math.sin((time / BREATHING_PERIOD_MS) * Math.PI * 2))
+        break
+      case 'rainbow':
+        // Each light a little further round the colour wheel, so the colours chase
+        light.color.setHSL((time / RAINBOW_PERIOD_MS + index / lights.length) % 1, 1, 0.5)
+        light.intensity = intensity
+        break
+      default:
+        light.color.set(glow.color)
+        light.intensity = intensity
+    }
+  })
+}
@@ -0,0 +1,21 @@
+import { copyFileSync, mkdirSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+// Copies three's Draco and Basis decoders into public/decoders, so they are
+// always the exact files of the installed three version (see modelLoader.ts)
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const libs = join(root, 'node_modules/three/examples/jsm/libs')
+
+const DECODERS = {
+  draco: ['draco_decoder.js', 'draco_decoder.wasm', 'draco_wasm_wrapper.js'],
+  basis: ['basis_transcoder.js', 'basis_transcoder.wasm']
+}
+
+Object.entries(DECODERS).forEach(([name, files]) => {
+  const target = join(root, 'public/decoders', name)
+  mkdirSync(target, { recursive: true })
+  files.forEach(file => copyFileSync(join(libs, name, file), join(target, file)))
+})
+
+console.log('Copied three.js decoders to public/decoders')